@@ -4,13 +4,20 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ProfileProvider } from "@/contexts/ProfileContext";
+import RealtimeSync from "@/components/RealtimeSync";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Profiles from "./pages/Profiles";
 import Pricing from "./pages/Pricing";
 import Watchlist from "./pages/Watchlist";
 import Account from "./pages/Account";
 import SubscriptionSuccess from "./pages/SubscriptionSuccess";
 import MovieDetails from "./pages/MovieDetails";
+import Watch from "./pages/Watch";
+import Person from "./pages/Person";
+import AdminMovies from "./pages/AdminMovies";
+import AdminMovieEdit from "./pages/AdminMovieEdit";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,17 +29,25 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/pricing" element={<Pricing />} />
-            <Route path="/watchlist" element={<Watchlist />} />
-            <Route path="/account" element={<Account />} />
-            <Route path="/movie/:id" element={<MovieDetails />} />
-            <Route path="/subscription-success" element={<SubscriptionSuccess />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <ProfileProvider>
+            <RealtimeSync />
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/profiles" element={<Profiles />} />
+              <Route path="/pricing" element={<Pricing />} />
+              <Route path="/watchlist" element={<Watchlist />} />
+              <Route path="/account" element={<Account />} />
+              <Route path="/movie/:id" element={<MovieDetails />} />
+              <Route path="/watch/:id" element={<Watch />} />
+              <Route path="/person/:tmdbPersonId" element={<Person />} />
+              <Route path="/admin/movies" element={<AdminMovies />} />
+              <Route path="/admin/movies/:id" element={<AdminMovieEdit />} />
+              <Route path="/subscription-success" element={<SubscriptionSuccess />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </ProfileProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
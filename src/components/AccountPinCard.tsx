@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { KeyRound } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useParentalControls } from '@/hooks/use-parental-controls';
+
+const PIN_PATTERN = /^\d{4}$/;
+
+// The PIN needed to switch from a kids or restricted profile to one that can see more.
+// Only an unrestricted profile can set it, so a restricted one can't choose its own way out.
+const AccountPinCard = () => {
+  const { toast } = useToast();
+  const { browseLimit, loading: controlsLoading } = useParentalControls();
+  const [hasPin, setHasPin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [newPin, setNewPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const restricted = browseLimit !== null;
+
+  useEffect(() => {
+    const fetchHasPin = async () => {
+      const { data, error } = await supabase.rpc('has_account_pin');
+      if (error) console.error('Error checking account PIN:', error);
+      setHasPin(!!data);
+      setLoading(false);
+    };
+    fetchHasPin();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(newPin) || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_account_pin', { _new_pin: newPin });
+      if (error) throw error;
+
+      toast({
+        title: hasPin ? "Account PIN changed" : "Account PIN set",
+        description: "Restricted profiles need it to switch to a less restricted one.",
+      });
+      setHasPin(true);
+      setNewPin('');
+    } catch (error) {
+      console.error('Error saving account PIN:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the account PIN",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Account PIN
+        </CardTitle>
+        <CardDescription>
+          Needed to leave a kids or restricted profile for one that can see more.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading || controlsLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Status</span>
+              <Badge variant={hasPin ? 'default' : 'secondary'}>{hasPin ? 'Set' : 'Not set'}</Badge>
+            </div>
+            {restricted ? (
+              <p className="text-sm text-muted-foreground">
+                Switch to an unrestricted profile to {hasPin ? 'change' : 'set'} the account PIN.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <label htmlFor="account-new-pin" className="text-sm font-medium">
+                    {hasPin ? 'New PIN' : 'Choose a 4-digit PIN'}
+                  </label>
+                  <Input
+                    id="account-new-pin"
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={newPin}
+                    onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={!PIN_PATTERN.test(newPin) || saving}>
+                  Save
+                </Button>
+              </>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountPinCard;
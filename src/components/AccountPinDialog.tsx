@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AccountPinDialogProps {
+  open: boolean;
+  // The profile being switched to
+  profileName: string;
+  checking: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (pin: string) => void;
+}
+
+// Asked for when leaving a kids or restricted profile for one that can see more
+const AccountPinDialog = ({ open, profileName, checking, onOpenChange, onSubmit }: AccountPinDialogProps) => {
+  const [pin, setPin] = useState('');
+
+  useEffect(() => {
+    if (open) setPin('');
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length !== 4 || checking) return;
+    onSubmit(pin);
+    setPin('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Enter the account PIN</DialogTitle>
+            <DialogDescription>
+              This profile is restricted. The account PIN is needed to switch to {profileName}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center">
+            <InputOTP maxLength={4} value={pin} onChange={setPin} inputMode="numeric" autoFocus>
+              <InputOTPGroup>
+                {[0, 1, 2, 3].map((index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <DialogFooter>
+            <Button type="submit" className="w-full" disabled={pin.length !== 4 || checking}>
+              Switch Profile
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountPinDialog;
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+interface AuditEntry {
+  id: string;
+  movie_id: string;
+  movie_title: string | null;
+  table_name: string;
+  action: string;
+  changes: Json;
+  changed_by_email: string | null;
+  created_at: string;
+}
+
+interface CatalogAuditLogProps {
+  // Limits the log to one movie; otherwise shows the latest changes across the catalog
+  movieId?: string;
+  limit?: number;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  movies: 'Movie',
+  movie_videos: 'Video source',
+  cast_members: 'Cast',
+  crew_members: 'Crew',
+  movie_genres: 'Genre',
+  people: 'Person',
+};
+
+const ACTION_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  insert: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+// Fields that identify an inserted or deleted row, in the order they're worth showing
+const SUMMARY_FIELDS = ['title', 'character_name', 'job', 'tmdb_person_id', 'video_url', 'genre_id'];
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const describeChanges = (entry: AuditEntry) => {
+  const changes = (entry.changes ?? {}) as Record<string, Json>;
+  if (entry.action === 'update') {
+    return Object.entries(changes).map(([field, change]) => {
+      const { old: before, new: after } = change as { old?: Json; new?: Json };
+      return `${field}: ${formatValue(before)} → ${formatValue(after)}`;
+    });
+  }
+  return SUMMARY_FIELDS
+    .filter((field) => changes[field] !== undefined && changes[field] !== null)
+    .map((field) => `${field}: ${formatValue(changes[field])}`);
+};
+
+const CatalogAuditLog = ({ movieId, limit = 50 }: CatalogAuditLogProps) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    let query = supabase
+      .from('catalog_audit_log')
+      .select('id, movie_id, movie_title, table_name, action, changes, changed_by_email, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (movieId) query = query.eq('movie_id', movieId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching audit log:', error);
+    } else {
+      setEntries(data || []);
+    }
+    setLoading(false);
+  }, [movieId, limit]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={fetchEntries} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading changes...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes have been made here yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Who</TableHead>
+              {!movieId && <TableHead>Movie</TableHead>}
+              <TableHead>Change</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                <TableCell>{entry.changed_by_email || 'Unknown'}</TableCell>
+                {!movieId && (
+                  <TableCell className="font-medium">
+                    <Link to={`/admin/movies/${entry.movie_id}`} className="hover:underline">
+                      {entry.movie_title || entry.movie_id}
+                    </Link>
+                  </TableCell>
+                )}
+                <TableCell className="whitespace-nowrap">
+                  <Badge variant={ACTION_BADGE_VARIANTS[entry.action] ?? 'secondary'} className="capitalize mr-2">
+                    {entry.action}
+                  </Badge>
+                  {TABLE_LABELS[entry.table_name] ?? entry.table_name}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {describeChanges(entry).map((line) => (
+                    <div key={line}>{line}</div>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default CatalogAuditLog;
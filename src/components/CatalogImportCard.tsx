@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, Download, RotateCcw, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+type SyncMode = 'full' | 'new-releases' | 'single';
+
+type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface ImportJob {
+  id: string;
+  mode: SyncMode;
+  tmdb_id: number | null;
+  status: ImportJobStatus;
+  cursor: number;
+  total: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const SYNC_MODE_LABELS: Record<SyncMode, string> = {
+  'full': 'Full catalog (top 1000 since 1970)',
+  'new-releases': 'New releases only',
+  'single': 'Single title by TMDB ID',
+};
+
+const STATUS_BADGE_VARIANTS: Record<ImportJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'default',
+  completed: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+const POLL_INTERVAL_MS = 3000;
+const RECENT_JOBS_LIMIT = 5;
+// Matches the server: an active job this quiet has lost its worker and can be resumed
+const STALLED_AFTER_MS = 3 * 60 * 1000;
+
+const isActive = (job: ImportJob) => job.status === 'pending' || job.status === 'running';
+
+const isStalled = (job: ImportJob) =>
+  isActive(job) && Date.now() - new Date(job.updated_at).getTime() > STALLED_AFTER_MS;
+
+const CatalogImportCard = () => {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [syncMode, setSyncMode] = useState<SyncMode>('full');
+  const [syncTmdbId, setSyncTmdbId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchJobs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .select('id, mode, tmdb_id, status, cursor, total, inserted, updated, unchanged, failed, last_error, created_at, updated_at')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_JOBS_LIMIT);
+
+    if (error) {
+      console.error('Error fetching import jobs:', error);
+      return;
+    }
+    setJobs((data || []) as ImportJob[]);
+  }, []);
+
+  const hasActiveJob = jobs.some(isActive);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Poll only while something is in flight
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJob, fetchJobs]);
+
+  const runJobAction = async (body: Record<string, unknown>, failureMessage: string) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.functions.invoke('populate-movies', { body });
+
+      if (error) throw error;
+      await fetchJobs();
+    } catch (error) {
+      console.error('Error managing import job:', error);
+      toast({
+        title: "Error",
+        description: failureMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startImport = () => {
+    if (syncMode === 'single' && !syncTmdbId.trim()) return;
+    runJobAction(
+      syncMode === 'single' ? { action: 'start', mode: syncMode, tmdbId: Number(syncTmdbId) } : { action: 'start', mode: syncMode },
+      "Failed to start the import. Another import may already be running."
+    );
+  };
+
+  const describeJob = (job: ImportJob) =>
+    job.mode === 'single' ? `TMDB #${job.tmdb_id}` : SYNC_MODE_LABELS[job.mode];
+
+  return (
+    <Card className="lg:col-span-3 border-primary/20 bg-primary/5">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-primary">
+          <Database className="h-5 w-5" />
+          Admin Controls
+        </CardTitle>
+        <CardDescription>
+          Manage movie database content
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={syncMode} onValueChange={(value) => setSyncMode(value as SyncMode)}>
+              <SelectTrigger className="sm:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SYNC_MODE_LABELS) as SyncMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>{SYNC_MODE_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {syncMode === 'single' && (
+              <Input
+                type="number"
+                min={1}
+                placeholder="TMDB ID, e.g. 603"
+                value={syncTmdbId}
+                onChange={(e) => setSyncTmdbId(e.target.value)}
+                className="sm:w-48"
+              />
+            )}
+            <Button
+              onClick={startImport}
+              disabled={submitting || hasActiveJob || (syncMode === 'single' && !syncTmdbId.trim())}
+              className="w-full sm:w-auto"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {hasActiveJob ? 'Import in progress' : 'Sync from TMDB'}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-2">
+            Imports run in the background, so you can leave this page. Watchlists, ratings and viewing history are kept.
+          </p>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium">Recent imports</h4>
+            {jobs.map((job) => (
+              <div key={job.id} className="rounded-md border bg-background p-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_BADGE_VARIANTS[job.status]} className="capitalize">
+                      {isStalled(job) ? 'stalled' : job.status}
+                    </Badge>
+                    <span className="text-sm font-medium">{describeJob(job)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(job.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    {isActive(job) && !isStalled(job) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={submitting}
+                        onClick={() => runJobAction({ action: 'cancel', jobId: job.id }, "Failed to cancel the import.")}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled' || isStalled(job)) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={submitting || (hasActiveJob && !isStalled(job))}
+                        onClick={() => runJobAction({ action: 'retry', jobId: job.id }, "Failed to resume the import.")}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {job.cursor > 0 ? 'Resume' : 'Retry'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {job.total > 0 && (
+                  <div className="space-y-1">
+                    <Progress value={(job.cursor / job.total) * 100} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {job.cursor} / {job.total} movies · {job.inserted} added · {job.updated} updated · {job.unchanged} unchanged
+                      {job.failed > 0 && ` · ${job.failed} failed`}
+                    </p>
+                  </div>
+                )}
+                {job.total === 0 && isActive(job) && (
+                  <p className="text-xs text-muted-foreground">Finding movies on TMDB...</p>
+                )}
+                {job.last_error && (
+                  <p className="text-xs text-destructive">{job.last_error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogImportCard;
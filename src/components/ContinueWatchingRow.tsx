@@ -0,0 +1,48 @@
+import React from 'react';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { History } from 'lucide-react';
+import { ContinueWatchingEntry } from '@/hooks/use-viewing-history';
+import MovieCard from './MovieCard';
+
+interface ContinueWatchingRowProps {
+  entries: ContinueWatchingEntry[];
+  onRemove: (movieId: string) => void;
+}
+
+const ContinueWatchingRow: React.FC<ContinueWatchingRowProps> = ({
+  entries,
+  onRemove
+}) => {
+  if (entries.length === 0) return null;
+
+  const getProgressPercent = ({ movie, progress_seconds }: ContinueWatchingEntry) => {
+    if (!movie.duration_minutes) return 0;
+    return Math.min(100, (progress_seconds / (movie.duration_minutes * 60)) * 100);
+  };
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <History className="h-5 w-5 text-primary" />
+        Continue Watching
+      </h3>
+      <Carousel opts={{ align: 'start' }} className="px-10">
+        <CarouselContent>
+          {entries.map((entry) => (
+            <CarouselItem key={entry.movie.id} className="basis-full sm:basis-1/2 md:basis-1/3 lg:basis-1/4 xl:basis-1/5">
+              <MovieCard
+                movie={entry.movie}
+                progressPercent={getProgressPercent(entry)}
+                onRemove={() => onRemove(entry.movie.id)}
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-0" />
+        <CarouselNext className="right-0" />
+      </Carousel>
+    </div>
+  );
+};
+
+export default ContinueWatchingRow;
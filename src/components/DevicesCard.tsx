@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { MonitorSmartphone, Play } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { deviceLimit, streamLimit } from '@/lib/subscription';
+
+interface Device {
+  session_id: string;
+  name: string;
+  last_seen_at: string;
+  is_current: boolean;
+  streaming_title: string | null;
+  streaming_profile: string | null;
+}
+
+// Signed-in devices on the account, with what each one is playing
+const DevicesCard = () => {
+  const { subscribed, subscriptionTier, signOut } = useAuth();
+  const { toast } = useToast();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signingOut, setSigningOut] = useState<string | null>(null);
+
+  const limit = streamLimit(subscribed, subscriptionTier);
+  const maxDevices = deviceLimit(subscribed, subscriptionTier);
+
+  const fetchDevices = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_devices');
+      if (error) throw error;
+      setDevices(data || []);
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const handleSignOut = async (device: Device) => {
+    if (device.is_current) {
+      await signOut();
+      return;
+    }
+
+    setSigningOut(device.session_id);
+    try {
+      const { error } = await supabase.rpc('sign_out_device', { _session_id: device.session_id });
+      if (error) throw error;
+
+      toast({
+        title: "Device signed out",
+        description: `${device.name} will need to sign in again.`,
+      });
+      setDevices(prev => prev.filter(d => d.session_id !== device.session_id));
+    } catch (error) {
+      console.error('Error signing out device:', error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out device",
+        variant: "destructive",
+      });
+    } finally {
+      setSigningOut(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Devices
+        </CardTitle>
+        <CardDescription>
+          {limit > 0
+            ? `Your plan streams on ${limit} ${limit === 1 ? 'device' : 'devices'} at a time.`
+            : 'Subscribe to stream on your devices.'}
+          {` Up to ${maxDevices} devices can stay signed in; signing in on another signs out the one unused the longest.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No devices signed in.</p>
+        ) : (
+          <ul className="space-y-4">
+            {devices.map((device) => (
+              <li key={device.session_id} className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{device.name}</span>
+                    {device.is_current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  {device.streaming_title ? (
+                    <p className="flex items-center gap-1 text-xs text-primary">
+                      <Play className="h-3 w-3" />
+                      <span className="truncate">
+                        {device.streaming_title}
+                        {device.streaming_profile && ` · ${device.streaming_profile}`}
+                      </span>
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Last active {new Date(device.last_seen_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSignOut(device)}
+                  disabled={signingOut === device.session_id}
+                >
+                  Sign out
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DevicesCard;
@@ -1,139 +1,48 @@
 import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Heart, Star, Play, Plus, Check } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Heart, Star, Play, Plus, Check, X } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { MovieSummary } from '@/hooks/use-movies';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useRateMovie, useRatings } from '@/hooks/use-ratings';
+import { hasTierAccess } from '@/lib/subscription';
+import { formatRuntime } from '@/lib/movieMetadata';
 import TrailerModal from './TrailerModal';
-
-interface Movie {
-  id: string;
-  title: string;
-  description: string;
-  genre: string[];
-  release_year: number;
-  duration_minutes: number;
-  rating: number;
-  poster_url: string;
-  subscription_tier: string;
-}
+import SaveToListMenu from './SaveToListMenu';
 
 interface MovieCardProps {
-  movie: Movie;
-  isInWatchlist?: boolean;
-  userRating?: number;
-  onWatchlistUpdate?: () => void;
-  onRatingUpdate?: () => void;
+  movie: MovieSummary;
+  progressPercent?: number;
+  onRemove?: () => void;
 }
 
+// Saved-list and rating state come from the shared query cache, so every card for a title stays in step
 const MovieCard: React.FC<MovieCardProps> = ({ 
   movie, 
-  isInWatchlist, 
-  userRating, 
-  onWatchlistUpdate,
-  onRatingUpdate 
+  progressPercent,
+  onRemove
 }) => {
   const { user, subscribed, subscriptionTier } = useAuth();
+  const navigate = useNavigate();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
+  const { movieIds: watchlistIds } = useWatchlist();
+  const { ratings } = useRatings();
+  const ratingMutation = useRateMovie();
   const [showTrailer, setShowTrailer] = useState(false);
 
-  const hasAccess = () => {
-    if (!subscribed) return false;
-    if (movie.subscription_tier === 'Basic') return true;
-    return subscriptionTier === 'Premium';
-  };
-
-  const toggleWatchlist = async () => {
-    if (!user) return;
-    
-    setLoading(true);
-    try {
-      if (isInWatchlist) {
-        const { error } = await supabase
-          .from('watchlist')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', movie.id);
-        
-        if (error) throw error;
-        
-        toast({
-          title: "Removed from watchlist",
-          description: `${movie.title} removed from your watchlist`,
-        });
-      } else {
-        const { error } = await supabase
-          .from('watchlist')
-          .insert({ user_id: user.id, movie_id: movie.id });
-        
-        if (error) throw error;
-        
-        toast({
-          title: "Added to watchlist",
-          description: `${movie.title} added to your watchlist`,
-        });
-      }
-      
-      onWatchlistUpdate?.();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const isInWatchlist = watchlistIds.has(movie.id);
+  const userRating = ratings[movie.id];
 
-  const rateMovie = async (rating: number) => {
-    if (!user) return;
-    
-    try {
-      const { error } = await supabase
-        .from('user_ratings')
-        .upsert({
-          user_id: user.id,
-          movie_id: movie.id,
-          rating
-        });
-      
-      if (error) throw error;
-      
-      toast({
-        title: "Rating saved",
-        description: `You rated ${movie.title} ${rating} stars`,
-      });
-      
-      onRatingUpdate?.();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
-  };
+  const hasAccess = () => hasTierAccess(subscribed, subscriptionTier, movie.subscription_tier);
 
-  const addToHistory = async () => {
+  const rateMovie = (rating: number) => {
     if (!user) return;
-    
-    try {
-      await supabase
-        .from('viewing_history')
-        .insert({
-          user_id: user.id,
-          movie_id: movie.id,
-          progress_seconds: 0,
-          completed: false
-        });
-    } catch (error) {
-      console.error('Error adding to history:', error);
-    }
+    ratingMutation.mutate({ movie, rating });
   };
 
   const handlePlay = () => {
@@ -145,10 +54,15 @@ const MovieCard: React.FC<MovieCardProps> = ({
       });
       return;
     }
+
+    // Partially watched titles go straight back into the player
+    if (progressPercent !== undefined) {
+      navigate(`/watch/${movie.id}`);
+      return;
+    }
     
     // Show trailer modal instead of playing immediately
     setShowTrailer(true);
-    addToHistory();
   };
 
   const handleCardClick = (e: React.MouseEvent) => {
@@ -187,27 +101,47 @@ const MovieCard: React.FC<MovieCardProps> = ({
                 className="bg-white text-black hover:bg-white/90"
               >
                 <Play className="h-4 w-4 mr-1" />
-                Play
+                {progressPercent !== undefined ? 'Resume' : 'Play'}
               </Button>
               {user && (
-                <Button
-                  size="sm"
-                  variant="secondary"
-                  onClick={(e) => handleButtonClick(e, toggleWatchlist)}
-                  disabled={loading}
-                >
-                  {isInWatchlist ? (
-                    <Check className="h-4 w-4" />
-                  ) : (
-                    <Plus className="h-4 w-4" />
-                  )}
-                </Button>
+                // The menu and its dialog render in portals, but their clicks still bubble
+                // through React to the card's link; stop them here so they don't open the title
+                <span onClick={(e) => e.stopPropagation()}>
+                  <SaveToListMenu movie={movie}>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={(e) => e.preventDefault()}
+                      aria-label="Save to list"
+                    >
+                      {isInWatchlist ? (
+                        <Check className="h-4 w-4" />
+                      ) : (
+                        <Plus className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </SaveToListMenu>
+                </span>
               )}
             </div>
           </div>
           <Badge className="absolute top-2 right-2" variant={movie.subscription_tier === 'Premium' ? 'default' : 'secondary'}>
             {movie.subscription_tier}
           </Badge>
+          {onRemove && (
+            <Button
+              size="icon"
+              variant="secondary"
+              onClick={(e) => handleButtonClick(e, onRemove)}
+              className="absolute top-2 left-2 h-7 w-7 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove from Continue Watching"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          {progressPercent !== undefined && (
+            <Progress value={progressPercent} className="absolute bottom-0 left-0 h-1 rounded-none" />
+          )}
         </div>
         
         <CardContent className="p-4">
@@ -233,7 +167,7 @@ const MovieCard: React.FC<MovieCardProps> = ({
           
           <div className="flex justify-between items-center text-xs text-muted-foreground">
             <span>{movie.release_year}</span>
-            <span>{Math.floor(movie.duration_minutes / 60)}h {movie.duration_minutes % 60}m</span>
+            <span>{formatRuntime(movie.duration_minutes)}</span>
           </div>
           
           {user && (
@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Plus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface CastCredit {
+  id: string;
+  tmdb_person_id: number;
+  character_name: string | null;
+  order_position: number | null;
+  people: { name: string } | null;
+}
+
+interface CrewCredit {
+  id: string;
+  tmdb_person_id: number;
+  job: string;
+  department: string | null;
+  people: { name: string } | null;
+}
+
+// The jobs the TMDB sync imports, with the department TMDB files them under
+const CREW_JOB_DEPARTMENTS: Record<string, string> = {
+  'Director': 'Directing',
+  'Screenplay': 'Writing',
+  'Writer': 'Writing',
+  'Story': 'Writing',
+  'Producer': 'Production',
+  'Executive Producer': 'Production',
+};
+
+const EMPTY_PERSON = { tmdbPersonId: '', name: '' };
+
+interface MovieCreditsEditorProps {
+  movieId: string;
+}
+
+const MovieCreditsEditor = ({ movieId }: MovieCreditsEditorProps) => {
+  const { toast } = useToast();
+  const [cast, setCast] = useState<CastCredit[]>([]);
+  const [crew, setCrew] = useState<CrewCredit[]>([]);
+  const [newCast, setNewCast] = useState({ ...EMPTY_PERSON, character: '' });
+  const [newCrew, setNewCrew] = useState({ ...EMPTY_PERSON, job: 'Director' });
+  const [saving, setSaving] = useState(false);
+
+  const fetchCredits = useCallback(async () => {
+    const [castRes, crewRes] = await Promise.all([
+      supabase
+        .from('cast_members')
+        .select('id, tmdb_person_id, character_name, order_position, people (name)')
+        .eq('movie_id', movieId)
+        .order('order_position', { ascending: true }),
+      supabase
+        .from('crew_members')
+        .select('id, tmdb_person_id, job, department, people (name)')
+        .eq('movie_id', movieId)
+        .order('department', { ascending: true }),
+    ]);
+
+    if (castRes.error) console.error('Error fetching cast:', castRes.error);
+    if (crewRes.error) console.error('Error fetching crew:', crewRes.error);
+    setCast(castRes.data || []);
+    setCrew(crewRes.data || []);
+  }, [movieId]);
+
+  useEffect(() => {
+    fetchCredits();
+  }, [fetchCredits]);
+
+  const runChange = async (change: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await change();
+      await fetchCredits();
+      return true;
+    } catch (error) {
+      console.error('Error updating credits:', error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Credits point at people by TMDB ID. Someone already in the catalog keeps
+  // their existing name and photo.
+  const ensurePerson = async (tmdbPersonId: number, name: string) => {
+    const { error } = await supabase
+      .from('people')
+      .upsert({ tmdb_person_id: tmdbPersonId, name }, { onConflict: 'tmdb_person_id', ignoreDuplicates: true });
+    if (error) throw error;
+  };
+
+  const parsePersonId = (value: string) => {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  };
+
+  const handleAddCast = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tmdbPersonId = parsePersonId(newCast.tmdbPersonId);
+    if (!tmdbPersonId || !newCast.name.trim() || saving) return;
+
+    const added = await runChange(async () => {
+      await ensurePerson(tmdbPersonId, newCast.name.trim());
+      const lastPosition = Math.max(-1, ...cast.map(member => member.order_position ?? 0));
+      const { error } = await supabase.from('cast_members').insert({
+        movie_id: movieId,
+        tmdb_person_id: tmdbPersonId,
+        character_name: newCast.character.trim() || null,
+        order_position: lastPosition + 1,
+      });
+      if (error) throw error;
+    }, "Failed to add cast member. They may already be credited.");
+
+    if (added) setNewCast({ ...EMPTY_PERSON, character: '' });
+  };
+
+  const handleAddCrew = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tmdbPersonId = parsePersonId(newCrew.tmdbPersonId);
+    if (!tmdbPersonId || !newCrew.name.trim() || saving) return;
+
+    const added = await runChange(async () => {
+      await ensurePerson(tmdbPersonId, newCrew.name.trim());
+      const { error } = await supabase.from('crew_members').insert({
+        movie_id: movieId,
+        tmdb_person_id: tmdbPersonId,
+        job: newCrew.job,
+        department: CREW_JOB_DEPARTMENTS[newCrew.job],
+      });
+      if (error) throw error;
+    }, "Failed to add crew member. They may already have this job.");
+
+    if (added) setNewCrew({ ...EMPTY_PERSON, job: newCrew.job });
+  };
+
+  const handleCharacterChange = (member: CastCredit, characterName: string) => {
+    if (characterName.trim() === (member.character_name ?? '')) return;
+
+    runChange(async () => {
+      const { error } = await supabase
+        .from('cast_members')
+        .update({ character_name: characterName.trim() || null })
+        .eq('id', member.id);
+      if (error) throw error;
+    }, "Failed to update character name");
+  };
+
+  const handleRemove = (table: 'cast_members' | 'crew_members', creditId: string) =>
+    runChange(async () => {
+      const { error } = await supabase.from(table).delete().eq('id', creditId);
+      if (error) throw error;
+    }, "Failed to remove credit");
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h4 className="font-medium">Cast</h4>
+        {cast.length === 0 && <p className="text-sm text-muted-foreground">No cast yet.</p>}
+        {cast.map((member) => (
+          <div key={member.id} className="flex items-center gap-2">
+            <Link to={`/person/${member.tmdb_person_id}`} className="w-48 truncate text-sm hover:underline">
+              {member.people?.name ?? member.tmdb_person_id}
+            </Link>
+            <Input
+              defaultValue={member.character_name ?? ''}
+              placeholder="Character"
+              onBlur={(e) => handleCharacterChange(member, e.target.value)}
+              className="h-8"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemove('cast_members', member.id)}
+              disabled={saving}
+              aria-label={`Remove ${member.people?.name ?? 'cast member'}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <form onSubmit={handleAddCast} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="number"
+            min={1}
+            placeholder="TMDB person ID"
+            value={newCast.tmdbPersonId}
+            onChange={(e) => setNewCast({ ...newCast, tmdbPersonId: e.target.value })}
+            className="sm:w-40"
+          />
+          <Input
+            placeholder="Name"
+            value={newCast.name}
+            onChange={(e) => setNewCast({ ...newCast, name: e.target.value })}
+          />
+          <Input
+            placeholder="Character"
+            value={newCast.character}
+            onChange={(e) => setNewCast({ ...newCast, character: e.target.value })}
+          />
+          <Button type="submit" variant="outline" disabled={saving || !newCast.tmdbPersonId || !newCast.name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <h4 className="font-medium">Crew</h4>
+        {crew.length === 0 && <p className="text-sm text-muted-foreground">No crew yet.</p>}
+        {crew.map((member) => (
+          <div key={member.id} className="flex items-center gap-2 text-sm">
+            <Link to={`/person/${member.tmdb_person_id}`} className="w-48 truncate hover:underline">
+              {member.people?.name ?? member.tmdb_person_id}
+            </Link>
+            <span className="flex-1 text-muted-foreground">{[member.job, member.department].filter(Boolean).join(' · ')}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemove('crew_members', member.id)}
+              disabled={saving}
+              aria-label={`Remove ${member.people?.name ?? 'crew member'}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <form onSubmit={handleAddCrew} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="number"
+            min={1}
+            placeholder="TMDB person ID"
+            value={newCrew.tmdbPersonId}
+            onChange={(e) => setNewCrew({ ...newCrew, tmdbPersonId: e.target.value })}
+            className="sm:w-40"
+          />
+          <Input
+            placeholder="Name"
+            value={newCrew.name}
+            onChange={(e) => setNewCrew({ ...newCrew, name: e.target.value })}
+          />
+          <Select value={newCrew.job} onValueChange={(job) => setNewCrew({ ...newCrew, job })}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(CREW_JOB_DEPARTMENTS).map((job) => (
+                <SelectItem key={job} value={job}>{job}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" variant="outline" disabled={saving || !newCrew.tmdbPersonId || !newCrew.name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MovieCreditsEditor;
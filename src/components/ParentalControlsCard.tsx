@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useParentalControls } from '@/hooks/use-parental-controls';
+import { MATURITY_RATINGS, PARENTAL_LIMIT_RATINGS } from '@/lib/maturity';
+
+const PIN_PATTERN = /^\d{4}$/;
+
+const ParentalControlsCard = () => {
+  const { toast } = useToast();
+  const { maxMaturityLevel, loading, refresh } = useParentalControls();
+  const [limit, setLimit] = useState('off');
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const enabled = maxMaturityLevel !== null;
+
+  useEffect(() => {
+    setLimit(maxMaturityLevel === null ? 'off' : String(maxMaturityLevel));
+  }, [maxMaturityLevel]);
+
+  // Turning controls on needs a new PIN; any change after that needs the current one
+  const canSave = (enabled || limit !== 'off')
+    && (!enabled || PIN_PATTERN.test(currentPin))
+    && (newPin === '' ? enabled || limit === 'off' : PIN_PATTERN.test(newPin));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || saving) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('set_parental_controls', {
+        _max_maturity_level: limit === 'off' ? undefined : Number(limit),
+        _new_pin: newPin || undefined,
+        _current_pin: currentPin || undefined,
+      });
+      if (error) throw error;
+
+      if (!data) {
+        toast({
+          title: "Incorrect PIN",
+          description: "Enter the current parental PIN to make changes.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: limit === 'off' ? "Parental controls off" : "Parental controls saved",
+        description: limit === 'off'
+          ? "Every title is shown on this profile."
+          : `Titles rated above ${MATURITY_RATINGS[Number(limit)]} now need the PIN.`,
+      });
+      setCurrentPin('');
+      setNewPin('');
+      await refresh();
+    } catch (error) {
+      console.error('Error saving parental controls:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save parental controls",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Parental Controls
+        </CardTitle>
+        <CardDescription>
+          Hide titles above a maturity rating. Unrated titles are hidden whenever a limit is set.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Status</span>
+              <Badge variant={enabled ? 'default' : 'secondary'}>
+                {enabled ? `Up to ${MATURITY_RATINGS[maxMaturityLevel]}` : 'Off'}
+              </Badge>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Maximum rating</label>
+              <Select value={limit} onValueChange={setLimit}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">No limit</SelectItem>
+                  {PARENTAL_LIMIT_RATINGS.map((rating, level) => (
+                    <SelectItem key={rating} value={String(level)}>{rating}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {enabled && (
+              <div className="space-y-2">
+                <label htmlFor="parental-current-pin" className="text-sm font-medium">Current PIN</label>
+                <Input
+                  id="parental-current-pin"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={currentPin}
+                  onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                />
+              </div>
+            )}
+            {limit !== 'off' && (
+              <div className="space-y-2">
+                <label htmlFor="parental-new-pin" className="text-sm font-medium">
+                  {enabled ? 'New PIN (optional)' : 'Choose a 4-digit PIN'}
+                </label>
+                <Input
+                  id="parental-new-pin"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                />
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={!canSave || saving}>
+              Save
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParentalControlsCard;
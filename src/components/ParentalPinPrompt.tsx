@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldAlert } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ParentalPinPromptProps {
+  movieId: string;
+  title: string;
+  certification?: string | null;
+  onUnlocked: () => void;
+  onCancel: () => void;
+}
+
+// Shown in place of a title above the profile's maturity limit. The PIN opens it for a few hours.
+const ParentalPinPrompt = ({ movieId, title, certification, onUnlocked, onCancel }: ParentalPinPromptProps) => {
+  const { toast } = useToast();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length !== 4 || checking) return;
+
+    setChecking(true);
+    try {
+      const { data, error } = await supabase.rpc('unlock_restricted_movie', { _movie_id: movieId, _pin: pin });
+      if (error) throw error;
+
+      if (data) {
+        onUnlocked();
+      } else {
+        setPin('');
+        toast({
+          title: "Incorrect PIN",
+          description: "Check the PIN and try again.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error unlocking movie:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check the PIN",
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <ShieldAlert className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+        <CardTitle>Restricted by parental controls</CardTitle>
+        <CardDescription>
+          {title} is rated {certification || 'Unrated'}, above this profile's limit. Enter the parental PIN to open it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleUnlock} className="flex flex-col items-center gap-4">
+          <InputOTP maxLength={4} value={pin} onChange={setPin} inputMode="numeric" autoFocus>
+            <InputOTPGroup>
+              {[0, 1, 2, 3].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <div className="flex w-full gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+              Go Back
+            </Button>
+            <Button type="submit" className="flex-1" disabled={pin.length !== 4 || checking}>
+              Unlock
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParentalPinPrompt;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { ViewerProfile } from '@/contexts/ProfileContext';
+
+interface ProfileAvatarProps {
+  profile: Pick<ViewerProfile, 'display_name' | 'avatar_url'>;
+  className?: string;
+}
+
+const ProfileAvatar = ({ profile, className }: ProfileAvatarProps) => (
+  <Avatar className={cn('rounded-md', className)}>
+    {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.display_name ?? ''} className="object-cover" />}
+    <AvatarFallback className="rounded-md bg-primary/20 font-semibold">
+      {(profile.display_name || '?').charAt(0).toUpperCase()}
+    </AvatarFallback>
+  </Avatar>
+);
+
+export default ProfileAvatar;
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ViewerProfile } from '@/contexts/ProfileContext';
+import ProfileAvatar from '@/components/ProfileAvatar';
+
+const MAX_NAME_LENGTH = 30;
+
+interface ProfileEditorDialogProps {
+  open: boolean;
+  // null adds a new profile
+  profile: ViewerProfile | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ProfileEditorDialog = ({ open, profile, onOpenChange, onSaved }: ProfileEditorDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [isKids, setIsKids] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(profile?.display_name ?? '');
+    setAvatarUrl(profile?.avatar_url ?? '');
+    setIsKids(profile?.is_kids ?? false);
+  }, [open, profile]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email || !name.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      const fields = {
+        display_name: name.trim(),
+        avatar_url: avatarUrl.trim() || null,
+        is_kids: isKids,
+      };
+      // The database refuses a new profile once the plan's limit is reached
+      const { error } = profile
+        ? await supabase.from('profiles').update(fields).eq('id', profile.id)
+        : await supabase.from('profiles').insert({ ...fields, user_id: user.id, email: user.email });
+      if (error) throw error;
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profile || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('profiles').delete().eq('id', profile.id);
+      if (error) throw error;
+
+      toast({
+        title: "Profile deleted",
+        description: `${profile.display_name} and its watchlist, ratings and history are gone.`,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{profile ? 'Edit Profile' : 'Add Profile'}</DialogTitle>
+            <DialogDescription>
+              Each profile keeps its own watchlist, ratings, history and recommendations.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-4">
+            <ProfileAvatar profile={{ display_name: name, avatar_url: avatarUrl.trim() || null }} className="h-16 w-16 text-2xl" />
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                maxLength={MAX_NAME_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-avatar">Avatar URL (optional)</Label>
+            <Input
+              id="profile-avatar"
+              type="url"
+              placeholder="https://..."
+              value={avatarUrl}
+              onChange={(e) => setAvatarUrl(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="profile-kids">Kids profile</Label>
+              <p className="text-sm text-muted-foreground">Only titles rated G or PG are shown.</p>
+            </div>
+            <Switch id="profile-kids" checked={isKids} onCheckedChange={setIsKids} />
+          </div>
+          <DialogFooter className="gap-2">
+            {profile && !profile.is_primary && (
+              <Button type="button" variant="destructive" onClick={handleDelete} disabled={saving} className="sm:mr-auto">
+                Delete Profile
+              </Button>
+            )}
+            <Button type="submit" disabled={saving || !name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileEditorDialog;
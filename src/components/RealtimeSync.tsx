@@ -0,0 +1,9 @@
+import { useRealtimeSync } from '@/hooks/use-realtime-sync';
+
+// Mounted once inside the auth and profile providers; renders nothing
+const RealtimeSync = () => {
+  useRealtimeSync();
+  return null;
+};
+
+export default RealtimeSync;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { LucideIcon } from 'lucide-react';
+import { RecommendedMovie } from '@/hooks/use-movies';
+import MovieCard from './MovieCard';
+
+interface RecommendationRowProps {
+  title: string;
+  icon: LucideIcon;
+  movies: RecommendedMovie[];
+}
+
+const RecommendationRow: React.FC<RecommendationRowProps> = ({
+  title,
+  icon: Icon,
+  movies
+}) => {
+  if (movies.length === 0) return null;
+
+  return (
+    <div className="mb-10">
+      <h3 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <Icon className="h-5 w-5 text-primary" />
+        {title}
+      </h3>
+      <Carousel opts={{ align: 'start' }} className="px-10">
+        <CarouselContent>
+          {movies.map((movie) => (
+            <CarouselItem key={movie.id} className="basis-full sm:basis-1/2 md:basis-1/3 lg:basis-1/4 xl:basis-1/5">
+              <MovieCard movie={movie} />
+              <p className="text-xs text-muted-foreground mt-2 line-clamp-2" title={movie.reason}>
+                {movie.reason}
+              </p>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-0" />
+        <CarouselNext className="right-0" />
+      </Carousel>
+    </div>
+  );
+};
+
+export default RecommendationRow;
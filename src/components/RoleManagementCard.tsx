@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck, UserPlus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+type AppRole = 'admin' | 'editor' | 'support';
+
+const APP_ROLES: AppRole[] = ['admin', 'editor', 'support'];
+
+interface RoleAssignment {
+  user_id: string;
+  email: string | null;
+  role: AppRole;
+  created_at: string;
+}
+
+const RoleManagementCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AppRole>('editor');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    manageRoles({ action: 'list' });
+  }, []);
+
+  // Every action returns the full, updated list of assignments
+  const manageRoles = async (body: Record<string, string>) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-user-roles', { body });
+
+      if (error) throw error;
+      setAssignments(data?.roles || []);
+      return true;
+    } catch (error) {
+      console.error('Error managing roles:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update roles",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || saving) return;
+
+    setSaving(true);
+    const granted = await manageRoles({ action: 'grant', email: email.trim(), role });
+    setSaving(false);
+
+    if (granted) {
+      toast({
+        title: "Role granted",
+        description: `${email.trim()} is now ${role === 'admin' ? 'an' : 'a'} ${role}.`,
+      });
+      setEmail('');
+    }
+  };
+
+  const handleRevoke = async (assignment: RoleAssignment) => {
+    setSaving(true);
+    const revoked = await manageRoles({ action: 'revoke', userId: assignment.user_id, role: assignment.role });
+    setSaving(false);
+
+    if (revoked) {
+      toast({
+        title: "Role revoked",
+        description: `Removed ${assignment.role} from ${assignment.email || 'this user'}.`,
+      });
+    }
+  };
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Staff Roles
+        </CardTitle>
+        <CardDescription>
+          Admins manage roles and the catalog, editors manage movie content, support can look up member accounts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleGrant} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            placeholder="user@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="sm:max-w-xs"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+            <SelectTrigger className="sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APP_ROLES.map((r) => (
+                <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={saving || !email.trim()}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Grant Role
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading roles...</p>
+        ) : assignments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No roles have been granted yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Granted</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={`${assignment.user_id}-${assignment.role}`}>
+                  <TableCell className="font-medium">{assignment.email || assignment.user_id}</TableCell>
+                  <TableCell>
+                    <Badge variant={assignment.role === 'admin' ? 'default' : 'secondary'} className="capitalize">
+                      {assignment.role}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{new Date(assignment.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {/* Admins can't remove their own admin role; the server enforces this too */}
+                    {!(assignment.user_id === user?.id && assignment.role === 'admin') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(assignment)}
+                        disabled={saving}
+                        aria-label={`Revoke ${assignment.role}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleManagementCard;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus } from 'lucide-react';
+import { MovieSummary } from '@/hooks/use-movies';
+import { useCreateWatchlist, useToggleWatchlist, useWatchlist, useWatchlists } from '@/hooks/use-watchlist';
+import WatchlistNameDialog from './WatchlistNameDialog';
+
+interface SaveToListMenuProps {
+  movie: MovieSummary;
+  // The button that opens the menu
+  children: React.ReactNode;
+}
+
+// Ticks a title in or out of each of the profile's lists. The menu stays open
+// so it can go in several at once; "New list" creates one and saves the title to it.
+const SaveToListMenu = ({ movie, children }: SaveToListMenuProps) => {
+  const { lists } = useWatchlists();
+  const { listIdsByMovie } = useWatchlist();
+  const toggleMutation = useToggleWatchlist();
+  const createMutation = useCreateWatchlist();
+  const [creating, setCreating] = useState(false);
+
+  const savedListIds = listIdsByMovie.get(movie.id);
+
+  const createAndSave = async (name: string) => {
+    try {
+      const list = await createMutation.mutateAsync(name);
+      setCreating(false);
+      toggleMutation.mutate({ movie, list, inList: false });
+    } catch {
+      // useCreateWatchlist has already shown the error
+    }
+  };
+
+  return (
+    <>
+      {/* Not modal, so the new-list dialog can take focus when the menu closes */}
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Save to list</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {lists.map((list) => {
+            const inList = !!savedListIds?.has(list.id);
+            return (
+              <DropdownMenuCheckboxItem
+                key={list.id}
+                checked={inList}
+                disabled={toggleMutation.isPending}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={() => toggleMutation.mutate({ movie, list, inList })}
+              >
+                <span className="truncate">{list.name}</span>
+              </DropdownMenuCheckboxItem>
+            );
+          })}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreating(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New list
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <WatchlistNameDialog
+        open={creating}
+        saving={createMutation.isPending}
+        onOpenChange={setCreating}
+        onSubmit={createAndSave}
+      />
+    </>
+  );
+};
+
+export default SaveToListMenu;
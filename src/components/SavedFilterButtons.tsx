@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bookmark, BookmarkPlus, Globe, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface SavedFilter {
+  id: string;
+  user_id: string | null;
+  name: string;
+  query: string;
+}
+
+interface SavedFilterButtonsProps {
+  // The home page's current query string, as produced by filtersToSearchParams
+  currentQuery: string;
+  onApply: (query: string) => void;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+// Global presets and the user's own saved views, shown after the built-in quick filters
+const SavedFilterButtons = ({ currentQuery, onApply }: SavedFilterButtonsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [publishGlobally, setPublishGlobally] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // RLS returns global presets to everyone, plus the signed-in user's own views
+  const fetchSavedFilters = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('saved_filters')
+      .select('id, user_id, name, query')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved filters:', error);
+      return;
+    }
+    setSavedFilters(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchSavedFilters();
+  }, [fetchSavedFilters, user]);
+
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+
+    supabase
+      .rpc('has_role', { _user_id: user.id, _role: 'admin' })
+      .then(({ data, error }) => {
+        if (error) console.error('Error checking admin role:', error);
+        setIsAdmin(!!data);
+      });
+  }, [user]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim() || !currentQuery || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('saved_filters').insert({
+        user_id: publishGlobally ? null : user.id,
+        name: name.trim(),
+        query: currentQuery,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+      toast({
+        title: publishGlobally ? "Preset published" : "View saved",
+        description: `"${name.trim()}" is now in your quick filters.`,
+      });
+      setName('');
+      setPublishGlobally(false);
+      setSaveOpen(false);
+      await fetchSavedFilters();
+    } catch (error) {
+      console.error('Error saving filter:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save this view. The name may already be taken.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (savedFilter: SavedFilter) => {
+    try {
+      const { error } = await supabase
+        .from('saved_filters')
+        .delete()
+        .eq('id', savedFilter.id);
+
+      if (error) throw error;
+      setSavedFilters(prev => prev.filter(item => item.id !== savedFilter.id));
+    } catch (error) {
+      console.error('Error deleting saved filter:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete saved view",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canDelete = (savedFilter: SavedFilter) =>
+    savedFilter.user_id ? savedFilter.user_id === user?.id : isAdmin;
+
+  return (
+    <>
+      {savedFilters.map((savedFilter) => {
+        const active = savedFilter.query === currentQuery;
+        return (
+          <div key={savedFilter.id} className="flex items-center">
+            <Button
+              variant={active ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onApply(active ? '' : savedFilter.query)}
+              className="flex items-center gap-2"
+            >
+              {savedFilter.user_id ? <Bookmark className="h-4 w-4" /> : <Globe className="h-4 w-4" />}
+              {savedFilter.name}
+            </Button>
+            {canDelete(savedFilter) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => handleDelete(savedFilter)}
+                aria-label={`Delete ${savedFilter.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {user && (
+        <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!currentQuery}
+              className="flex items-center gap-2"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+              Save view
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72">
+            <form onSubmit={handleSave} className="space-y-3">
+              <label htmlFor="saved-filter-name" className="text-sm font-medium">
+                Name this view
+              </label>
+              <Input
+                id="saved-filter-name"
+                placeholder="e.g. Short comedies"
+                value={name}
+                maxLength={MAX_NAME_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+              />
+              {isAdmin && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="saved-filter-global"
+                    checked={publishGlobally}
+                    onCheckedChange={(checked) => setPublishGlobally(checked === true)}
+                  />
+                  <label htmlFor="saved-filter-global" className="text-sm cursor-pointer">
+                    Publish for everyone
+                  </label>
+                </div>
+              )}
+              <Button type="submit" size="sm" className="w-full" disabled={saving || !name.trim()}>
+                Save
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      )}
+    </>
+  );
+};
+
+export default SavedFilterButtons;
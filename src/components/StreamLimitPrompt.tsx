@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MonitorSmartphone } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { streamLimit } from '@/lib/subscription';
+
+interface StreamingDevice {
+  session_id: string;
+  name: string;
+  streaming_title: string | null;
+  streaming_profile: string | null;
+}
+
+interface StreamLimitPromptProps {
+  onStreamFreed: () => void;
+  onCancel: () => void;
+}
+
+// Shown when every stream on the plan is in use. Stopping another device frees its slot for this one.
+const StreamLimitPrompt = ({ onStreamFreed, onCancel }: StreamLimitPromptProps) => {
+  const { subscribed, subscriptionTier } = useAuth();
+  const { toast } = useToast();
+  const [streams, setStreams] = useState<StreamingDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stopping, setStopping] = useState<string | null>(null);
+
+  const limit = streamLimit(subscribed, subscriptionTier);
+
+  useEffect(() => {
+    const fetchStreams = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_devices');
+        if (error) throw error;
+        setStreams((data || []).filter(device => !device.is_current && device.streaming_title));
+      } catch (error) {
+        console.error('Error fetching streams:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStreams();
+  }, []);
+
+  const handleStop = async (device: StreamingDevice) => {
+    setStopping(device.session_id);
+    try {
+      const { error } = await supabase.rpc('end_stream', { _session_id: device.session_id });
+      if (error) throw error;
+      onStreamFreed();
+    } catch (error) {
+      console.error('Error stopping stream:', error);
+      toast({
+        title: "Error",
+        description: "Failed to stop the other stream",
+        variant: "destructive",
+      });
+      setStopping(null);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <MonitorSmartphone className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+        <CardTitle>Too many people are watching</CardTitle>
+        <CardDescription>
+          Your plan streams on {limit} {limit === 1 ? 'device' : 'devices'} at a time. Stop one to watch here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {loading ? (
+          <p className="text-sm text-center text-muted-foreground">Loading...</p>
+        ) : (
+          <ul className="space-y-3">
+            {streams.map((device) => (
+              <li key={device.session_id} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{device.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {device.streaming_title}
+                    {device.streaming_profile && ` · ${device.streaming_profile}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleStop(device)}
+                  disabled={stopping !== null}
+                >
+                  Stop
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-col gap-2">
+          {subscriptionTier !== 'Premium' && (
+            <Link to="/pricing" className="w-full">
+              <Button className="w-full">Upgrade for more streams</Button>
+            </Link>
+          )}
+          <Button variant="outline" className="w-full" onClick={onCancel}>
+            Back to Details
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StreamLimitPrompt;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Crown, Plus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+type Tier = 'Basic' | 'Premium';
+
+interface TierRule {
+  id: string;
+  name: string;
+  tier: string;
+  priority: number;
+  max_age_days: number | null;
+  min_popularity: number | null;
+  min_rating: number | null;
+  active: boolean;
+}
+
+const EMPTY_RULE = { name: '', tier: 'Premium' as Tier, priority: '100', maxAgeDays: '', minPopularity: '', minRating: '' };
+
+// Blank inputs mean "no condition"
+const toNumberOrNull = (value: string) => value.trim() === '' ? null : Number(value);
+
+const describeConditions = (rule: TierRule) => {
+  const conditions = [];
+  if (rule.max_age_days !== null) conditions.push(`released within ${rule.max_age_days} days`);
+  if (rule.min_popularity !== null) conditions.push(`popularity ≥ ${rule.min_popularity}`);
+  if (rule.min_rating !== null) conditions.push(`rating ≥ ${rule.min_rating}`);
+  return conditions.length > 0 ? conditions.join(' and ') : 'every movie';
+};
+
+// Every change re-applies the rules to the catalog in the database, so saves can take a moment
+const TierRulesCard = () => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<TierRule[]>([]);
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('tier_rules')
+      .select('id, name, tier, priority, max_age_days, min_popularity, min_rating, active')
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tier rules:', error);
+    } else {
+      setRules(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const runChange = async (change: () => PromiseLike<{ error: unknown }>, failure: string) => {
+    setSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw error;
+      await fetchRules();
+      return true;
+    } catch (error) {
+      console.error('Error updating tier rules:', error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || saving) return;
+
+    const added = await runChange(
+      () => supabase.from('tier_rules').insert({
+        name: draft.name.trim(),
+        tier: draft.tier,
+        priority: Number(draft.priority) || 0,
+        max_age_days: toNumberOrNull(draft.maxAgeDays),
+        min_popularity: toNumberOrNull(draft.minPopularity),
+        min_rating: toNumberOrNull(draft.minRating),
+      }),
+      "Failed to add the rule. Check that every value is in range."
+    );
+
+    if (added) {
+      toast({
+        title: "Rule added",
+        description: "Movie tiers have been updated to follow it.",
+      });
+      setDraft(EMPTY_RULE);
+    }
+  };
+
+  const handleToggle = (rule: TierRule, active: boolean) =>
+    runChange(
+      () => supabase.from('tier_rules').update({ active }).eq('id', rule.id),
+      "Failed to update the rule"
+    );
+
+  const handleDelete = (rule: TierRule) =>
+    runChange(
+      () => supabase.from('tier_rules').delete().eq('id', rule.id),
+      "Failed to delete the rule"
+    );
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crown className="h-5 w-5" />
+          Tier Rules
+        </CardTitle>
+        <CardDescription>
+          The first active rule, in priority order, whose conditions all hold sets a movie's tier. Movies matching none are Basic.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-7 gap-2">
+          <Input
+            placeholder="Rule name"
+            value={draft.name}
+            maxLength={60}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="col-span-2"
+          />
+          <Select value={draft.tier} onValueChange={(value) => setDraft({ ...draft, tier: value as Tier })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Basic">Basic</SelectItem>
+              <SelectItem value="Premium">Premium</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Priority"
+            aria-label="Priority"
+            value={draft.priority}
+            onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={1}
+            placeholder="Within days"
+            aria-label="Released within days"
+            value={draft.maxAgeDays}
+            onChange={(e) => setDraft({ ...draft, maxAgeDays: e.target.value })}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Min popularity"
+            aria-label="Minimum popularity"
+            value={draft.minPopularity}
+            onChange={(e) => setDraft({ ...draft, minPopularity: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              step="0.1"
+              placeholder="Min rating"
+              aria-label="Minimum rating"
+              value={draft.minRating}
+              onChange={(e) => setDraft({ ...draft, minRating: e.target.value })}
+            />
+            <Button type="submit" size="icon" disabled={saving || !draft.name.trim()} aria-label="Add rule">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules yet, so every movie is Basic.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Priority</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.tier === 'Premium' ? 'default' : 'secondary'}>{rule.tier}</Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{describeConditions(rule)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.active}
+                      onCheckedChange={(checked) => handleToggle(rule, checked)}
+                      disabled={saving}
+                      aria-label={`${rule.active ? 'Disable' : 'Enable'} ${rule.name}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      disabled={saving}
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TierRulesCard;
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Matches the check on watchlists.name
+const MAX_NAME_LENGTH = 40;
+
+interface WatchlistNameDialogProps {
+  open: boolean;
+  // Pre-filled when renaming; empty for a new list
+  initialName?: string;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string) => void;
+}
+
+// Names a new list or renames an existing one
+const WatchlistNameDialog = ({ open, initialName = '', saving, onOpenChange, onSubmit }: WatchlistNameDialogProps) => {
+  const [name, setName] = useState('');
+  const renaming = !!initialName;
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || saving) return;
+    onSubmit(name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{renaming ? 'Rename List' : 'New List'}</DialogTitle>
+            <DialogDescription>
+              Lists keep your saved titles organised, like "Date night" or "Kids".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="watchlist-name">Name</Label>
+            <Input
+              id="watchlist-name"
+              placeholder="e.g. Date night"
+              value={name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {renaming ? 'Save' : 'Create List'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WatchlistNameDialog;
@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { StickyNote } from 'lucide-react';
+import { WatchlistEntry, useUpdateWatchlistNote } from '@/hooks/use-watchlist';
+
+// Matches the check on watchlist.note
+const MAX_NOTE_LENGTH = 500;
+
+interface WatchlistNoteEditorProps {
+  entry: WatchlistEntry;
+}
+
+// A saved title's note, shown under its card on the watchlist page and edited in a popover
+const WatchlistNoteEditor = ({ entry }: WatchlistNoteEditorProps) => {
+  const noteMutation = useUpdateWatchlistNote();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (open) setNote(entry.note ?? '');
+  }, [open, entry.note]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    noteMutation.mutate({ entry, note });
+    setOpen(false);
+  };
+
+  return (
+    <div className="mt-2 text-sm">
+      {entry.note && (
+        <p className="text-muted-foreground whitespace-pre-line line-clamp-3 mb-1">{entry.note}</p>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+            <StickyNote className="h-3 w-3 mr-1" />
+            {entry.note ? 'Edit note' : 'Add note'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72">
+          <form onSubmit={handleSave} className="space-y-3">
+            <label htmlFor={`watchlist-note-${entry.list_id}-${entry.movie.id}`} className="text-sm font-medium">
+              Note for {entry.movie.title}
+            </label>
+            <Textarea
+              id={`watchlist-note-${entry.list_id}-${entry.movie.id}`}
+              rows={4}
+              placeholder="e.g. Recommended by Sam"
+              value={note}
+              maxLength={MAX_NOTE_LENGTH}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="w-full" disabled={noteMutation.isPending}>
+              Save Note
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default WatchlistNoteEditor;
@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { describeDevice } from '@/lib/devices';
+import { subscribeWithFallback } from '@/lib/realtime';
 
 interface AuthContextType {
   user: User | null;
@@ -9,10 +12,13 @@ interface AuthContextType {
   subscribed: boolean;
   subscriptionTier: string | null;
   subscriptionEnd: string | null;
+  subscriptionStatus: string | null;
+  trialEndsAt: string | null;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   checkSubscription: () => Promise<void>;
+  refreshSubscription: () => Promise<void>;
   loading: boolean;
 }
 
@@ -24,14 +30,64 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [subscribed, setSubscribed] = useState(false);
   const [subscriptionTier, setSubscriptionTier] = useState<string | null>(null);
   const [subscriptionEnd, setSubscriptionEnd] = useState<string | null>(null);
+  const [subscriptionStatus, setSubscriptionStatus] = useState<string | null>(null);
+  const [trialEndsAt, setTrialEndsAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  const applySubscription = (data: {
+    subscribed?: boolean;
+    subscription_tier?: string | null;
+    subscription_end?: string | null;
+    subscription_status?: string | null;
+    trial_end?: string | null;
+  }) => {
+    setSubscribed(data.subscribed || false);
+    setSubscriptionTier(data.subscription_tier || null);
+    setSubscriptionEnd(data.subscription_end || null);
+    setSubscriptionStatus(data.subscription_status || null);
+    setTrialEndsAt(data.subscription_status === 'trialing' ? data.trial_end || null : null);
+  };
+
+  const clearSubscription = () => {
+    setSubscribed(false);
+    setSubscriptionTier(null);
+    setSubscriptionEnd(null);
+    setSubscriptionStatus(null);
+    setTrialEndsAt(null);
+  };
+
+  // Asks Stripe directly via the check-subscription function. Only needed when no
+  // subscribers row exists yet or right after checkout, before the webhook lands.
+  const refreshSubscription = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('check-subscription');
+      
+      if (error) {
+        console.error('Error checking subscription:', error);
+        return;
+      }
+
+      if (data) {
+        applySubscription(data);
+      }
+    } catch (error) {
+      console.error('Error in refreshSubscription:', error);
+    }
+  };
+
+  // Reads the subscribers row kept up to date by the stripe-webhook function
   const checkSubscription = async () => {
-    if (!session) return;
+    const { data: { session: currentSession } } = await supabase.auth.getSession();
+    const currentUser = currentSession?.user;
+    if (!currentUser?.email) return;
     
     try {
-      const { data, error } = await supabase.functions.invoke('check-subscription');
+      const { data, error } = await supabase
+        .from('subscribers')
+        .select('subscribed, subscription_tier, subscription_end, subscription_status, trial_end')
+        .eq('email', currentUser.email)
+        .maybeSingle();
       
       if (error) {
         console.error('Error checking subscription:', error);
@@ -39,15 +95,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       if (data) {
-        setSubscribed(data.subscribed || false);
-        setSubscriptionTier(data.subscription_tier || null);
-        setSubscriptionEnd(data.subscription_end || null);
+        applySubscription(data);
+      } else {
+        await refreshSubscription();
       }
     } catch (error) {
       console.error('Error in checkSubscription:', error);
     }
   };
 
+  // Keeps this session in the Devices list, with a fresh last-seen time. Signing in
+  // on a device beyond the plan's limit signs out the ones unused the longest.
+  const registerDevice = async () => {
+    const { data: signedOut, error } = await supabase.rpc('register_device', {
+      _name: describeDevice(navigator.userAgent),
+      _user_agent: navigator.userAgent,
+    });
+    if (error) {
+      console.error('Error registering device:', error);
+      return;
+    }
+    if (signedOut) {
+      toast({
+        title: "Older device signed out",
+        description: `${signedOut} was signed out to stay within your plan's device limit.`,
+      });
+    }
+  };
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -60,11 +135,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (session?.user) {
           setTimeout(() => {
             checkSubscription();
+            registerDevice();
           }, 0);
         } else {
-          setSubscribed(false);
-          setSubscriptionTier(null);
-          setSubscriptionEnd(null);
+          clearSubscription();
         }
       }
     );
@@ -78,6 +152,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (session?.user) {
         setTimeout(() => {
           checkSubscription();
+          registerDevice();
         }, 0);
       }
     });
@@ -85,6 +160,25 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  // The stripe-webhook function updates the subscribers row; every open tab and
+  // device picks the change up from Realtime instead of waiting for a reload
+  const email = user?.email;
+  useEffect(() => {
+    if (!email) return;
+
+    const channel = supabase
+      .channel(`subscription:${email}`)
+      .on<Tables<'subscribers'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'subscribers', filter: `email=eq.${email}` },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') applySubscription(payload.new);
+        }
+      );
+
+    return subscribeWithFallback(channel, checkSubscription);
+  }, [email]);
+
   const signUp = async (email: string, password: string, displayName?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
@@ -127,9 +221,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     await supabase.auth.signOut();
-    setSubscribed(false);
-    setSubscriptionTier(null);
-    setSubscriptionEnd(null);
+    clearSubscription();
     toast({
       title: "Signed out",
       description: "You've been successfully signed out.",
@@ -143,10 +235,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       subscribed,
       subscriptionTier,
       subscriptionEnd,
+      subscriptionStatus,
+      trialEndsAt,
       signUp,
       signIn,
       signOut,
       checkSubscription,
+      refreshSubscription,
       loading
     }}>
       {children}
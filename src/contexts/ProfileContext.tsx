@@ -0,0 +1,96 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface ViewerProfile {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  is_kids: boolean;
+  is_primary: boolean;
+}
+
+interface ProfileContextType {
+  profiles: ViewerProfile[];
+  // The profile picked on this device; null until the picker has been used
+  activeProfile: ViewerProfile | null;
+  // Resolves false when leaving a restricted profile needs the account PIN and it's missing or wrong
+  selectProfile: (profileId: string, pin?: string) => Promise<boolean>;
+  refreshProfiles: () => Promise<void>;
+  loading: boolean;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<ViewerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // The choice is stored per auth session server-side, which is also what scopes
+  // watchlists, ratings and history, so the two can't drift apart
+  const refreshProfiles = async () => {
+    if (!user) {
+      setProfiles([]);
+      setActiveProfileId(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [profilesRes, selectedRes] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, display_name, avatar_url, is_kids, is_primary')
+          .order('is_primary', { ascending: false })
+          .order('created_at', { ascending: true }),
+        supabase.rpc('selected_profile_id'),
+      ]);
+
+      if (profilesRes.error) throw profilesRes.error;
+      if (selectedRes.error) throw selectedRes.error;
+
+      setProfiles(profilesRes.data || []);
+      setActiveProfileId(selectedRes.data);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectProfile = async (profileId: string, pin?: string) => {
+    const { data, error } = await supabase.rpc('select_profile', { _profile_id: profileId, _pin: pin });
+    if (error) throw error;
+    if (data) setActiveProfileId(profileId);
+    return data;
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    refreshProfiles();
+  }, [user]);
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? null;
+
+  return (
+    <ProfileContext.Provider value={{
+      profiles,
+      activeProfile,
+      selectProfile,
+      refreshProfiles,
+      loading
+    }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export const useProfile = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+
+// Admins and editors can change the catalog. RLS enforces the same check on every write.
+export function useIsCatalogEditor() {
+  const { user, loading: authLoading } = useAuth()
+  const [isCatalogEditor, setIsCatalogEditor] = useState(false)
+  const [checking, setChecking] = useState(true)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setIsCatalogEditor(false)
+      setChecking(false)
+      return
+    }
+
+    setChecking(true)
+    supabase
+      .rpc("is_catalog_editor", { _user_id: user.id })
+      .then(({ data, error }) => {
+        if (error) console.error("Error checking catalog editor role:", error)
+        setIsCatalogEditor(!!data)
+        setChecking(false)
+      })
+  }, [user, authLoading])
+
+  return { isCatalogEditor, checking }
+}
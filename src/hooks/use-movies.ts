@@ -0,0 +1,111 @@
+import { infiniteQueryOptions, useInfiniteQuery, useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Tables } from "@/integrations/supabase/types"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { MovieSearchFilters, toSearchRpcArgs } from "@/lib/movieSearch"
+import { queryKeys } from "@/lib/queryKeys"
+
+export type Movie = Tables<"movies">
+
+// What a movie card shows; the recommendation RPCs return just these columns
+export type MovieSummary = Pick<
+  Movie,
+  "id" | "title" | "description" | "genre" | "release_year" | "duration_minutes" | "rating" | "poster_url" | "subscription_tier"
+>
+
+// A row returned by the similar_movies, because_you_watched or recommended_movies RPCs
+export type RecommendedMovie = MovieSummary & { reason: string }
+
+// The catalog changes rarely, so pages stay fresh long enough for back-navigation to reuse them
+const CATALOG_STALE_TIME_MS = 5 * 60 * 1000
+
+// search_movies, a page at a time. Results follow the profile's parental limit,
+// so they're cached per profile. Shared with prefetches that restore several pages at once.
+export const movieSearchOptions = (profileId: string | null, filters: MovieSearchFilters, pageSize: number) =>
+  infiniteQueryOptions({
+    queryKey: queryKeys.movies.search(profileId, filters),
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc("search_movies", toSearchRpcArgs(filters, pageParam, pageSize))
+      if (error) throw error
+      return data || []
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => (lastPage.length === pageSize ? pages.length : undefined),
+    staleTime: CATALOG_STALE_TIME_MS,
+  })
+
+export function useMovies(filters: MovieSearchFilters, pageSize: number, enabled = true) {
+  const { activeProfile, loading: profileLoading } = useProfile()
+  return useInfiniteQuery({
+    ...movieSearchOptions(activeProfile?.id ?? null, filters, pageSize),
+    enabled: enabled && !profileLoading,
+  })
+}
+
+export function useMovie(movieId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.movies.detail(movieId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase.from("movies").select("*").eq("id", movieId).single()
+      if (error) throw error
+      return data
+    },
+    enabled: !!movieId,
+  })
+}
+
+// Whether the active profile's parental limit lets it open the title; false until the PIN is entered
+export function useViewerCanWatch(movieId: string | undefined) {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  return useQuery({
+    queryKey: queryKeys.movies.canWatch(activeProfile?.id ?? null, movieId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("viewer_can_watch", { _movie_id: movieId })
+      if (error) throw error
+      return data
+    },
+    enabled: !!user && !!movieId,
+  })
+}
+
+// Leaves out titles the profile has already watched, so it changes with viewing history
+export function useSimilarMovies(movieId: string | undefined) {
+  const { activeProfile, loading: profileLoading } = useProfile()
+  return useQuery({
+    queryKey: queryKeys.movies.similar(activeProfile?.id ?? null, movieId ?? ""),
+    queryFn: async (): Promise<RecommendedMovie[]> => {
+      const { data, error } = await supabase.rpc("similar_movies", { target_movie_id: movieId })
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!movieId && !profileLoading,
+  })
+}
+
+// Both rows are built server-side from the profile's ratings, watchlist and viewing history
+export function useRecommendations(limit: number) {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  return useQuery({
+    queryKey: [...queryKeys.recommendations(activeProfile?.id ?? null), limit],
+    queryFn: async () => {
+      const [recommendedRes, becauseRes] = await Promise.all([
+        supabase.rpc("recommended_movies", { result_limit: limit }),
+        supabase.rpc("because_you_watched", { result_limit: limit }),
+      ])
+      if (recommendedRes.error) throw recommendedRes.error
+      if (becauseRes.error) throw becauseRes.error
+
+      const becauseRows = becauseRes.data || []
+      return {
+        recommended: (recommendedRes.data || []) as RecommendedMovie[],
+        becauseYouWatched: becauseRows.length > 0
+          ? { sourceTitle: becauseRows[0].source_title, movies: becauseRows as RecommendedMovie[] }
+          : null,
+      }
+    },
+    enabled: !!user && !!activeProfile,
+  })
+}
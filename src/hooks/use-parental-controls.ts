@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { KIDS_MATURITY_LEVEL } from "@/lib/maturity"
+
+// The active profile's parental limit, or null when parental controls are off.
+// browseLimit also applies the kids-profile cap, matching viewer_max_maturity.
+// Browsing and playback are filtered server-side too; this only drives the UI.
+export function useParentalControls() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const [maxMaturityLevel, setMaxMaturityLevel] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setMaxMaturityLevel(null)
+      setLoading(false)
+      return
+    }
+
+    const { data, error } = await supabase.rpc("get_parental_controls")
+    if (error) console.error("Error fetching parental controls:", error)
+    setMaxMaturityLevel(data?.[0]?.max_maturity_level ?? null)
+    setLoading(false)
+  }, [user])
+
+  // Each profile has its own controls, so switching profile reloads them
+  useEffect(() => {
+    refresh()
+  }, [refresh, activeProfile?.id])
+
+  const limits = [maxMaturityLevel, activeProfile?.is_kids ? KIDS_MATURITY_LEVEL : null].filter(
+    (level): level is number => level !== null
+  )
+  const browseLimit = limits.length > 0 ? Math.min(...limits) : null
+
+  return { maxMaturityLevel, browseLimit, loading, refresh }
+}
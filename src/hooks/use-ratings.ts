@@ -0,0 +1,102 @@
+import { useMemo } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { useToast } from "@/hooks/use-toast"
+import { MovieSummary } from "@/hooks/use-movies"
+import { queryKeys } from "@/lib/queryKeys"
+
+// A user_ratings row; id is null for a rating that hasn't been saved yet.
+// Realtime delete events only carry the row ID, so it's kept to match them.
+export interface RatingEntry {
+  id: string | null
+  movie_id: string
+  rating: number
+}
+
+// Replaces the profile's rating for the same movie, if any
+export const upsertRatingEntry = (entries: RatingEntry[], entry: RatingEntry) => [
+  ...entries.filter(existing => existing.movie_id !== entry.movie_id),
+  entry,
+]
+
+// The active profile's star ratings, keyed by movie ID
+export function useRatings() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+
+  const query = useQuery({
+    queryKey: queryKeys.ratings(activeProfile?.id ?? null),
+    queryFn: async (): Promise<RatingEntry[]> => {
+      const { data, error } = await supabase
+        .from("user_ratings")
+        .select("id, movie_id, rating")
+        .eq("user_id", user.id)
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!user && !!activeProfile,
+  })
+
+  const ratings = useMemo(
+    (): Record<string, number> => Object.fromEntries((query.data ?? []).map(entry => [entry.movie_id, entry.rating])),
+    [query.data]
+  )
+
+  return { ratings, loading: query.isLoading }
+}
+
+interface RateMovieVariables {
+  movie: MovieSummary
+  rating: number
+}
+
+// Shows the new rating straight away and restores the old one if the write fails
+export function useRateMovie() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const ratingsKey = queryKeys.ratings(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async ({ movie, rating }: RateMovieVariables) => {
+      const { error } = await supabase
+        .from("user_ratings")
+        .upsert({ user_id: user.id, movie_id: movie.id, rating }, { onConflict: "profile_id,movie_id" })
+      if (error) throw error
+    },
+    onMutate: async ({ movie, rating }) => {
+      await queryClient.cancelQueries({ queryKey: ratingsKey })
+      const previous = queryClient.getQueryData<RatingEntry[]>(ratingsKey)
+      queryClient.setQueryData<RatingEntry[]>(ratingsKey, (entries = []) =>
+        upsertRatingEntry(entries, {
+          id: entries.find(entry => entry.movie_id === movie.id)?.id ?? null,
+          movie_id: movie.id,
+          rating,
+        })
+      )
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(ratingsKey, context?.previous)
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+    onSuccess: (_data, { movie, rating }) => {
+      toast({
+        title: "Rating saved",
+        description: `You rated ${movie.title} ${rating} stars`,
+      })
+    },
+    // Ratings feed the recommendation rows
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ratingsKey })
+      queryClient.invalidateQueries({ queryKey: queryKeys.recommendations(activeProfile?.id ?? null) })
+    },
+  })
+}
@@ -0,0 +1,124 @@
+import { useEffect } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Tables } from "@/integrations/supabase/types"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { WatchlistEntry } from "@/hooks/use-watchlist"
+import { RatingEntry, upsertRatingEntry } from "@/hooks/use-ratings"
+import { ViewingHistoryRow } from "@/hooks/use-viewing-history"
+import { queryKeys } from "@/lib/queryKeys"
+import { subscribeWithFallback } from "@/lib/realtime"
+
+// Keeps the active profile's watchlists, ratings and viewing history in step with
+// changes made in other tabs and on other devices. Events that carry everything the
+// cache holds are merged in place; the rest are refetched.
+export function useRealtimeSync() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const userId = user?.id
+  const profileId = activeProfile?.id ?? null
+
+  useEffect(() => {
+    if (!userId || !profileId) return
+
+    const listsKey = queryKeys.watchlists(profileId)
+    const watchlistKey = queryKeys.watchlist(profileId)
+    const ratingsKey = queryKeys.ratings(profileId)
+    const historyKey = queryKeys.viewingHistory(profileId)
+    const recommendationsKey = queryKeys.recommendations(profileId)
+    const filter = `profile_id=eq.${profileId}`
+
+    // Delete events only carry the row ID, so anything not already loaded is ignored
+    const isLoaded = (key: readonly unknown[], rowId: string) =>
+      !!queryClient.getQueryData<{ id: string | null }[]>(key)?.some(row => row.id === rowId)
+
+    const channel = supabase
+      .channel(`profile-sync:${profileId}`)
+      .on<Tables<"watchlist">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "watchlist", filter },
+        (payload) => {
+          // A reorder or a note; the saved titles themselves haven't changed
+          if (payload.eventType === "UPDATE" && isLoaded(watchlistKey, payload.new.id)) {
+            const { id, list_id, position, note } = payload.new
+            queryClient.setQueryData<WatchlistEntry[]>(watchlistKey, entries =>
+              entries
+                ?.map(entry => (entry.id === id ? { ...entry, list_id, position, note } : entry))
+                .sort((a, b) => a.position - b.position)
+            )
+            return
+          }
+
+          if (payload.eventType === "DELETE") {
+            if (!isLoaded(watchlistKey, payload.old.id)) return
+            queryClient.setQueryData<WatchlistEntry[]>(watchlistKey, entries =>
+              entries?.filter(entry => entry.id !== payload.old.id)
+            )
+          } else {
+            // The cache holds whole movies, which the event doesn't
+            queryClient.invalidateQueries({ queryKey: watchlistKey })
+          }
+          queryClient.invalidateQueries({ queryKey: recommendationsKey })
+        }
+      )
+      .on<Tables<"watchlists">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "watchlists", filter },
+        // Titles removed along with a deleted list arrive as their own watchlist events
+        () => queryClient.invalidateQueries({ queryKey: listsKey })
+      )
+      .on<Tables<"user_ratings">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "user_ratings", filter },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            if (!isLoaded(ratingsKey, payload.old.id)) return
+            queryClient.setQueryData<RatingEntry[]>(ratingsKey, entries =>
+              entries?.filter(entry => entry.id !== payload.old.id)
+            )
+          } else {
+            const { id, movie_id, rating } = payload.new
+            queryClient.setQueryData<RatingEntry[]>(ratingsKey, entries =>
+              entries && upsertRatingEntry(entries, { id, movie_id, rating })
+            )
+          }
+          queryClient.invalidateQueries({ queryKey: recommendationsKey })
+        }
+      )
+      .on<Tables<"viewing_history">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "viewing_history", filter },
+        (payload) => {
+          if (payload.eventType === "DELETE" && !isLoaded(historyKey, payload.old.id)) return
+
+          // A player saves progress every few seconds; those updates are merged so another
+          // device watching doesn't keep refetching history and recommendations
+          if (payload.eventType === "UPDATE") {
+            const rows = queryClient.getQueryData<ViewingHistoryRow[]>(historyKey)
+            const row = rows?.find(existing => existing.id === payload.new.id)
+            if (row && row.completed === payload.new.completed && row.dismissed === payload.new.dismissed) {
+              const { progress_seconds, completed } = payload.new
+              queryClient.setQueryData<ViewingHistoryRow[]>(historyKey, [
+                { ...row, progress_seconds, completed },
+                ...rows.filter(existing => existing.id !== row.id),
+              ])
+              return
+            }
+          }
+
+          queryClient.invalidateQueries({ queryKey: historyKey })
+          queryClient.invalidateQueries({ queryKey: recommendationsKey })
+        }
+      )
+
+    return subscribeWithFallback(channel, () => {
+      queryClient.invalidateQueries({ queryKey: listsKey })
+      queryClient.invalidateQueries({ queryKey: watchlistKey })
+      queryClient.invalidateQueries({ queryKey: ratingsKey })
+      queryClient.invalidateQueries({ queryKey: historyKey })
+      queryClient.invalidateQueries({ queryKey: recommendationsKey })
+    })
+  }, [userId, profileId, queryClient])
+}
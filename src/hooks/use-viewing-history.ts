@@ -0,0 +1,127 @@
+import { useMemo } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { useToast } from "@/hooks/use-toast"
+import { Movie } from "@/hooks/use-movies"
+import { queryKeys } from "@/lib/queryKeys"
+
+const HISTORY_LIMIT = 100
+
+export interface ContinueWatchingEntry {
+  movie: Movie
+  progress_seconds: number
+}
+
+const fetchViewingHistory = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("viewing_history")
+    .select("id, movie_id, progress_seconds, completed, dismissed, movies (*)")
+    .eq("user_id", userId)
+    .order("watched_at", { ascending: false })
+    .limit(HISTORY_LIMIT)
+  if (error) throw error
+  return data || []
+}
+
+export type ViewingHistoryRow = Awaited<ReturnType<typeof fetchViewingHistory>>[number]
+
+const NO_HISTORY: ViewingHistoryRow[] = []
+
+// The active profile's most recent viewing sessions, newest first
+export function useViewingHistory() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+
+  const query = useQuery({
+    queryKey: queryKeys.viewingHistory(activeProfile?.id ?? null),
+    queryFn: () => fetchViewingHistory(user.id),
+    enabled: !!user && !!activeProfile,
+  })
+
+  return { history: query.data ?? NO_HISTORY, loading: query.isLoading }
+}
+
+// Titles left part-way through and not removed from the row. Only the latest session
+// per title counts: a finished rewatch shouldn't resurface an older partial one.
+export function useContinueWatching(limit: number) {
+  const { history } = useViewingHistory()
+
+  return useMemo(() => {
+    const seen = new Set<string>()
+    const entries: ContinueWatchingEntry[] = []
+    for (const item of history) {
+      if (seen.has(item.movie_id)) continue
+      seen.add(item.movie_id)
+
+      if (!item.completed && !item.dismissed && (item.progress_seconds || 0) > 0 && item.movies) {
+        entries.push({ movie: item.movies, progress_seconds: item.progress_seconds || 0 })
+      }
+    }
+    return entries.slice(0, limit)
+  }, [history, limit])
+}
+
+// How many viewing sessions the active profile has, for the account page
+export function useViewingHistoryCount() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+
+  const query = useQuery({
+    queryKey: [...queryKeys.viewingHistory(activeProfile?.id ?? null), "count"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("viewing_history")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+      if (error) throw error
+      return count || 0
+    },
+    enabled: !!user && !!activeProfile,
+  })
+
+  return query.data ?? 0
+}
+
+// Hides a title's unfinished sessions from Continue Watching straight away, showing them again if the write fails.
+// The sessions are kept: watch counts, trending and recommendations are built from them.
+export function useRemoveFromContinueWatching() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const historyKey = queryKeys.viewingHistory(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async (movieId: string) => {
+      const { error } = await supabase
+        .from("viewing_history")
+        .update({ dismissed: true })
+        .eq("user_id", user.id)
+        .eq("movie_id", movieId)
+        .eq("completed", false)
+      if (error) throw error
+    },
+    onMutate: async (movieId) => {
+      await queryClient.cancelQueries({ queryKey: historyKey })
+      const previous = queryClient.getQueryData<ViewingHistoryRow[]>(historyKey)
+      queryClient.setQueryData<ViewingHistoryRow[]>(historyKey, (rows = []) =>
+        rows.map(row => (row.movie_id === movieId && !row.completed ? { ...row, dismissed: true } : row))
+      )
+      return { previous }
+    },
+    onError: (error, _movieId, context) => {
+      console.error("Error removing from continue watching:", error)
+      queryClient.setQueryData(historyKey, context?.previous)
+      toast({
+        title: "Error",
+        description: "Failed to remove from Continue Watching",
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: historyKey })
+    },
+  })
+}
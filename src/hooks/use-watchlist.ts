@@ -0,0 +1,352 @@
+import { useMemo } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Tables } from "@/integrations/supabase/types"
+import { useAuth } from "@/contexts/AuthContext"
+import { useProfile } from "@/contexts/ProfileContext"
+import { useToast } from "@/hooks/use-toast"
+import { Movie, MovieSummary } from "@/hooks/use-movies"
+import { queryKeys } from "@/lib/queryKeys"
+
+// A named list. Every profile has a default one ("My Watchlist") that can't be deleted.
+export type Watchlist = Tables<"watchlists">
+
+// A title saved to one list; id is null for an add that hasn't been saved yet.
+// Realtime delete events only carry the row ID, so it's kept to match them.
+export interface WatchlistEntry {
+  id: string | null
+  list_id: string
+  position: number
+  note: string | null
+  created_at: string
+  movie: Movie
+}
+
+// Postgres unique_violation: the profile already has a list with that name
+const DUPLICATE_LIST_NAME = "23505"
+
+const listErrorMessage = (error: Error & { code?: string }, name: string) =>
+  error.code === DUPLICATE_LIST_NAME ? `You already have a list called "${name.trim()}"` : error.message
+
+// The active profile's lists, default first, then in the order they were made
+export function useWatchlists() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+
+  const query = useQuery({
+    queryKey: queryKeys.watchlists(activeProfile?.id ?? null),
+    queryFn: async (): Promise<Watchlist[]> => {
+      const { data, error } = await supabase
+        .from("watchlists")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("is_default", { ascending: false })
+        .order("created_at", { ascending: true })
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!user && !!activeProfile,
+  })
+
+  const lists = useMemo(() => query.data ?? [], [query.data])
+  const defaultList = useMemo(() => lists.find(list => list.is_default) ?? null, [lists])
+
+  return { lists, defaultList, loading: query.isLoading }
+}
+
+// Every title the active profile has saved, across all its lists, in list order.
+// Every card reads the same cached rows, so a save on one page shows up everywhere without a refetch.
+export function useWatchlist() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+
+  const query = useQuery({
+    queryKey: queryKeys.watchlist(activeProfile?.id ?? null),
+    queryFn: async (): Promise<WatchlistEntry[]> => {
+      const { data, error } = await supabase
+        .from("watchlist")
+        .select("id, list_id, position, note, created_at, movies (*)")
+        .eq("user_id", user.id)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: false })
+      if (error) throw error
+      return (data || [])
+        .filter(item => item.movies)
+        .map(({ movies, ...item }) => ({ ...item, movie: movies }))
+    },
+    enabled: !!user && !!activeProfile,
+  })
+
+  const entries = useMemo(() => query.data ?? [], [query.data])
+  const movieIds = useMemo(() => new Set(entries.map(entry => entry.movie.id)), [entries])
+
+  // Which lists each title is in, for the "save to list" menus
+  const listIdsByMovie = useMemo(() => {
+    const byMovie = new Map<string, Set<string>>()
+    for (const entry of entries) {
+      if (!byMovie.has(entry.movie.id)) byMovie.set(entry.movie.id, new Set())
+      byMovie.get(entry.movie.id).add(entry.list_id)
+    }
+    return byMovie
+  }, [entries])
+
+  return { entries, movieIds, listIdsByMovie, loading: query.isLoading }
+}
+
+interface ToggleWatchlistVariables {
+  movie: MovieSummary
+  list: Watchlist
+  inList: boolean
+}
+
+// Adds a title to (or removes it from) one list straight away in the cache and puts it back if the write fails
+export function useToggleWatchlist() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const watchlistKey = queryKeys.watchlist(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async ({ movie, list, inList }: ToggleWatchlistVariables) => {
+      const { error } = inList
+        ? await supabase.from("watchlist").delete().eq("list_id", list.id).eq("movie_id", movie.id)
+        : await supabase.from("watchlist").insert({ user_id: user.id, movie_id: movie.id, list_id: list.id })
+      if (error) throw error
+    },
+    onMutate: async ({ movie, list, inList }) => {
+      await queryClient.cancelQueries({ queryKey: watchlistKey })
+      const previous = queryClient.getQueryData<WatchlistEntry[]>(watchlistKey)
+      queryClient.setQueryData<WatchlistEntry[]>(watchlistKey, (entries = []) => {
+        if (inList) return entries.filter(entry => entry.list_id !== list.id || entry.movie.id !== movie.id)
+
+        // New saves go to the top of the list: one above its lowest position, or 0 in an
+        // empty list, matching coalesce(min(position), 1) - 1 in prepare_watchlist_item
+        const positions = entries.filter(entry => entry.list_id === list.id).map(entry => entry.position)
+        const position = (positions.length ? Math.min(...positions) : 1) - 1
+        return [
+          { id: null, list_id: list.id, position, note: null, created_at: new Date().toISOString(), movie: movie as Movie },
+          ...entries,
+        ]
+      })
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(watchlistKey, context?.previous)
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+    onSuccess: (_data, { movie, list, inList }) => {
+      toast(inList
+        ? { title: `Removed from ${list.name}`, description: `${movie.title} removed from ${list.name}` }
+        : { title: `Saved to ${list.name}`, description: `${movie.title} added to ${list.name}` })
+    },
+    // Recommendations are built partly from the watchlist
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: watchlistKey })
+      queryClient.invalidateQueries({ queryKey: queryKeys.recommendations(activeProfile?.id ?? null) })
+    },
+  })
+}
+
+// Resolves with the new list, so a title can be saved to it straight away
+export function useCreateWatchlist() {
+  const { user } = useAuth()
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const listsKey = queryKeys.watchlists(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase
+        .from("watchlists")
+        .insert({ user_id: user.id, name: name.trim() })
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    },
+    onSuccess: (list) => {
+      queryClient.setQueryData<Watchlist[]>(listsKey, (lists = []) => [...lists, list])
+      toast({ title: "List created", description: `${list.name} is ready for titles` })
+    },
+    onError: (error, name) => {
+      toast({
+        title: "Error",
+        description: listErrorMessage(error, name),
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listsKey })
+    },
+  })
+}
+
+interface RenameWatchlistVariables {
+  list: Watchlist
+  name: string
+}
+
+export function useRenameWatchlist() {
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const listsKey = queryKeys.watchlists(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async ({ list, name }: RenameWatchlistVariables) => {
+      const { error } = await supabase.from("watchlists").update({ name: name.trim() }).eq("id", list.id)
+      if (error) throw error
+    },
+    onSuccess: (_data, { list, name }) => {
+      queryClient.setQueryData<Watchlist[]>(listsKey, lists =>
+        lists?.map(existing => (existing.id === list.id ? { ...existing, name: name.trim() } : existing))
+      )
+    },
+    onError: (error, { name }) => {
+      toast({
+        title: "Error",
+        description: listErrorMessage(error, name),
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listsKey })
+    },
+  })
+}
+
+// Deleting a list removes the titles saved to it; they stay in any other list
+export function useDeleteWatchlist() {
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const profileId = activeProfile?.id ?? null
+
+  return useMutation({
+    mutationFn: async (list: Watchlist) => {
+      const { error } = await supabase.from("watchlists").delete().eq("id", list.id)
+      if (error) throw error
+    },
+    onSuccess: (_data, list) => {
+      queryClient.setQueryData<Watchlist[]>(queryKeys.watchlists(profileId), lists =>
+        lists?.filter(existing => existing.id !== list.id)
+      )
+      queryClient.setQueryData<WatchlistEntry[]>(queryKeys.watchlist(profileId), entries =>
+        entries?.filter(entry => entry.list_id !== list.id)
+      )
+      toast({ title: "List deleted", description: `${list.name} has been deleted` })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.watchlists(profileId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.watchlist(profileId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.recommendations(profileId) })
+    },
+  })
+}
+
+interface ReorderWatchlistVariables {
+  listId: string
+  // The list's titles, top first
+  movieIds: string[]
+}
+
+// Shows the dragged order straight away and restores the old one if the write fails
+export function useReorderWatchlist() {
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const watchlistKey = queryKeys.watchlist(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async ({ listId, movieIds }: ReorderWatchlistVariables) => {
+      const { error } = await supabase.rpc("reorder_watchlist", { _list_id: listId, _movie_ids: movieIds })
+      if (error) throw error
+    },
+    onMutate: async ({ listId, movieIds }) => {
+      await queryClient.cancelQueries({ queryKey: watchlistKey })
+      const previous = queryClient.getQueryData<WatchlistEntry[]>(watchlistKey)
+      // Positions match what reorder_watchlist writes: 1 for the top title
+      const positions = new Map(movieIds.map((movieId, index) => [movieId, index + 1]))
+      queryClient.setQueryData<WatchlistEntry[]>(watchlistKey, (entries = []) =>
+        entries
+          .map(entry =>
+            entry.list_id === listId && positions.has(entry.movie.id)
+              ? { ...entry, position: positions.get(entry.movie.id) }
+              : entry
+          )
+          .sort((a, b) => a.position - b.position)
+      )
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(watchlistKey, context?.previous)
+      toast({
+        title: "Error",
+        description: "Failed to save the new order",
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: watchlistKey })
+    },
+  })
+}
+
+interface UpdateWatchlistNoteVariables {
+  entry: WatchlistEntry
+  note: string
+}
+
+export function useUpdateWatchlistNote() {
+  const { activeProfile } = useProfile()
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const watchlistKey = queryKeys.watchlist(activeProfile?.id ?? null)
+
+  return useMutation({
+    mutationFn: async ({ entry, note }: UpdateWatchlistNoteVariables) => {
+      const { error } = await supabase
+        .from("watchlist")
+        .update({ note: note.trim() || null })
+        .eq("list_id", entry.list_id)
+        .eq("movie_id", entry.movie.id)
+      if (error) throw error
+    },
+    onMutate: async ({ entry, note }) => {
+      await queryClient.cancelQueries({ queryKey: watchlistKey })
+      const previous = queryClient.getQueryData<WatchlistEntry[]>(watchlistKey)
+      queryClient.setQueryData<WatchlistEntry[]>(watchlistKey, (entries = []) =>
+        entries.map(existing =>
+          existing.list_id === entry.list_id && existing.movie.id === entry.movie.id
+            ? { ...existing, note: note.trim() || null }
+            : existing
+        )
+      )
+      return { previous }
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(watchlistKey, context?.previous)
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: watchlistKey })
+    },
+  })
+}
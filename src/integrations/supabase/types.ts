@@ -14,15 +14,82 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_pins: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      active_streams: {
+        Row: {
+          last_heartbeat_at: string
+          movie_id: string
+          profile_id: string | null
+          session_id: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          last_heartbeat_at?: string
+          movie_id: string
+          profile_id?: string | null
+          session_id: string
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          last_heartbeat_at?: string
+          movie_id?: string
+          profile_id?: string | null
+          session_id?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "active_streams_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_streams_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cast_members: {
         Row: {
           character_name: string | null
           created_at: string
           id: string
           movie_id: string
-          name: string
           order_position: number | null
-          profile_picture_url: string | null
           tmdb_person_id: number
           updated_at: string
         }
@@ -31,9 +98,7 @@ export type Database = {
           created_at?: string
           id?: string
           movie_id: string
-          name: string
           order_position?: number | null
-          profile_picture_url?: string | null
           tmdb_person_id: number
           updated_at?: string
         }
@@ -42,9 +107,7 @@ export type Database = {
           created_at?: string
           id?: string
           movie_id?: string
-          name?: string
           order_position?: number | null
-          profile_picture_url?: string | null
           tmdb_person_id?: number
           updated_at?: string
         }
@@ -56,8 +119,51 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cast_members_tmdb_person_id_fkey"
+            columns: ["tmdb_person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["tmdb_person_id"]
+          },
         ]
       }
+      catalog_audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changed_by_email: string | null
+          changes: Json
+          created_at: string
+          id: string
+          movie_id: string
+          movie_title: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          changes: Json
+          created_at?: string
+          id?: string
+          movie_id: string
+          movie_title?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          movie_id?: string
+          movie_title?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
       crew_members: {
         Row: {
           created_at: string
@@ -65,8 +171,6 @@ export type Database = {
           id: string
           job: string
           movie_id: string
-          name: string
-          profile_picture_url: string | null
           tmdb_person_id: number
           updated_at: string
         }
@@ -76,8 +180,6 @@ export type Database = {
           id?: string
           job: string
           movie_id: string
-          name: string
-          profile_picture_url?: string | null
           tmdb_person_id: number
           updated_at?: string
         }
@@ -87,8 +189,6 @@ export type Database = {
           id?: string
           job?: string
           movie_id?: string
-          name?: string
-          profile_picture_url?: string | null
           tmdb_person_id?: number
           updated_at?: string
         }
@@ -100,56 +200,462 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "crew_members_tmdb_person_id_fkey"
+            columns: ["tmdb_person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["tmdb_person_id"]
+          },
+        ]
+      }
+      devices: {
+        Row: {
+          created_at: string
+          last_seen_at: string
+          name: string
+          session_id: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_seen_at?: string
+          name: string
+          session_id: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_seen_at?: string
+          name?: string
+          session_id?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      genres: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          tmdb_genre_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          tmdb_genre_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          tmdb_genre_id?: number | null
+        }
+        Relationships: []
+      }
+      import_jobs: {
+        Row: {
+          cast_count: number
+          created_at: string
+          crew_count: number
+          cursor: number
+          errors: Json
+          failed: number
+          finished_at: string | null
+          id: string
+          inserted: number
+          last_error: string | null
+          locked_until: string | null
+          mode: string
+          requested_by: string | null
+          started_at: string | null
+          status: string
+          tmdb_id: number | null
+          tmdb_ids: number[] | null
+          total: number
+          unchanged: number
+          updated: number
+          updated_at: string
+        }
+        Insert: {
+          cast_count?: number
+          created_at?: string
+          crew_count?: number
+          cursor?: number
+          errors?: Json
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          inserted?: number
+          last_error?: string | null
+          locked_until?: string | null
+          mode: string
+          requested_by?: string | null
+          started_at?: string | null
+          status?: string
+          tmdb_id?: number | null
+          tmdb_ids?: number[] | null
+          total?: number
+          unchanged?: number
+          updated?: number
+          updated_at?: string
+        }
+        Update: {
+          cast_count?: number
+          created_at?: string
+          crew_count?: number
+          cursor?: number
+          errors?: Json
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          inserted?: number
+          last_error?: string | null
+          locked_until?: string | null
+          mode?: string
+          requested_by?: string | null
+          started_at?: string | null
+          status?: string
+          tmdb_id?: number | null
+          tmdb_ids?: number[] | null
+          total?: number
+          unchanged?: number
+          updated?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      movie_genres: {
+        Row: {
+          genre_id: string
+          movie_id: string
+          position: number
+        }
+        Insert: {
+          genre_id: string
+          movie_id: string
+          position?: number
+        }
+        Update: {
+          genre_id?: string
+          movie_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movie_genres_genre_id_fkey"
+            columns: ["genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movie_genres_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movie_videos: {
+        Row: {
+          created_at: string
+          movie_id: string
+          updated_at: string
+          video_url: string
+        }
+        Insert: {
+          created_at?: string
+          movie_id: string
+          updated_at?: string
+          video_url: string
+        }
+        Update: {
+          created_at?: string
+          movie_id?: string
+          updated_at?: string
+          video_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movie_videos_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: true
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
         ]
       }
       movies: {
         Row: {
+          backdrop_url: string | null
+          certification: string | null
           created_at: string
           description: string | null
           duration_minutes: number | null
           genre: string[] | null
           id: string
+          imdb_id: string | null
+          maturity_level: number | null
+          original_language: string | null
+          popularity: number | null
           poster_url: string | null
+          production_countries: string[]
           rating: number | null
+          release_date: string | null
           release_year: number | null
           subscription_tier: string
+          sync_locked: boolean
+          tagline: string | null
+          tier_locked: boolean
           title: string
+          tmdb_id: number | null
           trailer_url: string | null
           updated_at: string
-          video_url: string | null
         }
         Insert: {
+          backdrop_url?: string | null
+          certification?: string | null
           created_at?: string
           description?: string | null
           duration_minutes?: number | null
           genre?: string[] | null
           id?: string
+          imdb_id?: string | null
+          maturity_level?: never
+          original_language?: string | null
+          popularity?: number | null
           poster_url?: string | null
+          production_countries?: string[]
           rating?: number | null
+          release_date?: string | null
           release_year?: number | null
           subscription_tier?: string
+          sync_locked?: boolean
+          tagline?: string | null
+          tier_locked?: boolean
           title: string
+          tmdb_id?: number | null
           trailer_url?: string | null
           updated_at?: string
-          video_url?: string | null
         }
         Update: {
+          backdrop_url?: string | null
+          certification?: string | null
           created_at?: string
           description?: string | null
           duration_minutes?: number | null
           genre?: string[] | null
           id?: string
+          imdb_id?: string | null
+          maturity_level?: never
+          original_language?: string | null
+          popularity?: number | null
           poster_url?: string | null
+          production_countries?: string[]
           rating?: number | null
+          release_date?: string | null
           release_year?: number | null
           subscription_tier?: string
+          sync_locked?: boolean
+          tagline?: string | null
+          tier_locked?: boolean
           title?: string
+          tmdb_id?: number | null
           trailer_url?: string | null
           updated_at?: string
-          video_url?: string | null
         }
         Relationships: []
       }
+      parental_controls: {
+        Row: {
+          created_at: string
+          failed_attempts: number
+          locked_until: string | null
+          max_maturity_level: number
+          pin_hash: string
+          profile_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          max_maturity_level: number
+          pin_hash: string
+          profile_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_attempts?: number
+          locked_until?: string | null
+          max_maturity_level?: number
+          pin_hash?: string
+          profile_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parental_controls_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parental_unlocks: {
+        Row: {
+          expires_at: string
+          movie_id: string
+          profile_id: string
+        }
+        Insert: {
+          expires_at: string
+          movie_id: string
+          profile_id: string
+        }
+        Update: {
+          expires_at?: string
+          movie_id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parental_unlocks_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parental_unlocks_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      people: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          profile_picture_url: string | null
+          tmdb_person_id: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          profile_picture_url?: string | null
+          tmdb_person_id: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          profile_picture_url?: string | null
+          tmdb_person_id?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      plans: {
+        Row: {
+          active: boolean
+          amount: number
+          billing_interval: string
+          created_at: string
+          currency: string
+          description: string | null
+          features: string[]
+          id: string
+          name: string
+          popular: boolean
+          sort_order: number
+          stripe_price_id: string
+          stripe_product_id: string | null
+          tier: string
+          trial_period_days: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          billing_interval?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          features?: string[]
+          id?: string
+          name: string
+          popular?: boolean
+          sort_order?: number
+          stripe_price_id: string
+          stripe_product_id?: string | null
+          tier: string
+          trial_period_days?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          billing_interval?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          features?: string[]
+          id?: string
+          name?: string
+          popular?: boolean
+          sort_order?: number
+          stripe_price_id?: string
+          stripe_product_id?: string | null
+          tier?: string
+          trial_period_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profile_sessions: {
+        Row: {
+          profile_id: string
+          selected_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          profile_id: string
+          selected_at?: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          profile_id?: string
+          selected_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -157,6 +663,8 @@ export type Database = {
           display_name: string | null
           email: string
           id: string
+          is_kids: boolean
+          is_primary: boolean
           updated_at: string
           user_id: string
         }
@@ -166,6 +674,8 @@ export type Database = {
           display_name?: string | null
           email: string
           id?: string
+          is_kids?: boolean
+          is_primary?: boolean
           updated_at?: string
           user_id: string
         }
@@ -175,20 +685,88 @@ export type Database = {
           display_name?: string | null
           email?: string
           id?: string
+          is_kids?: boolean
+          is_primary?: boolean
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      recent_searches: {
+        Row: {
+          id: string
+          profile_id: string
+          searched_at: string
+          term: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          profile_id?: string
+          searched_at?: string
+          term: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          searched_at?: string
+          term?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recent_searches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_filters: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          query: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          query: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          query?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       subscribers: {
         Row: {
           created_at: string
           email: string
           id: string
           stripe_customer_id: string | null
+          stripe_event_at: string | null
+          stripe_subscription_id: string | null
           subscribed: boolean
           subscription_end: string | null
+          subscription_status: string | null
           subscription_tier: string | null
+          trial_end: string | null
           updated_at: string
           user_id: string | null
         }
@@ -197,9 +775,13 @@ export type Database = {
           email: string
           id?: string
           stripe_customer_id?: string | null
+          stripe_event_at?: string | null
+          stripe_subscription_id?: string | null
           subscribed?: boolean
           subscription_end?: string | null
+          subscription_status?: string | null
           subscription_tier?: string | null
+          trial_end?: string | null
           updated_at?: string
           user_id?: string | null
         }
@@ -208,19 +790,63 @@ export type Database = {
           email?: string
           id?: string
           stripe_customer_id?: string | null
+          stripe_event_at?: string | null
+          stripe_subscription_id?: string | null
           subscribed?: boolean
           subscription_end?: string | null
+          subscription_status?: string | null
           subscription_tier?: string | null
+          trial_end?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Relationships: []
       }
+      tier_rules: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          max_age_days: number | null
+          min_popularity: number | null
+          min_rating: number | null
+          name: string
+          priority: number
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          max_age_days?: number | null
+          min_popularity?: number | null
+          min_rating?: number | null
+          name: string
+          priority?: number
+          tier: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          max_age_days?: number | null
+          min_popularity?: number | null
+          min_rating?: number | null
+          name?: string
+          priority?: number
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_ratings: {
         Row: {
           created_at: string
           id: string
           movie_id: string
+          profile_id: string
           rating: number
           updated_at: string
           user_id: string
@@ -229,6 +855,7 @@ export type Database = {
           created_at?: string
           id?: string
           movie_id: string
+          profile_id?: string
           rating: number
           updated_at?: string
           user_id: string
@@ -237,6 +864,7 @@ export type Database = {
           created_at?: string
           id?: string
           movie_id?: string
+          profile_id?: string
           rating?: number
           updated_at?: string
           user_id?: string
@@ -249,29 +877,66 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_ratings_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       viewing_history: {
         Row: {
           completed: boolean | null
+          dismissed: boolean
           id: string
           movie_id: string
+          profile_id: string
           progress_seconds: number | null
           user_id: string
           watched_at: string
         }
         Insert: {
           completed?: boolean | null
+          dismissed?: boolean
           id?: string
           movie_id: string
+          profile_id?: string
           progress_seconds?: number | null
           user_id: string
           watched_at?: string
         }
         Update: {
           completed?: boolean | null
+          dismissed?: boolean
           id?: string
           movie_id?: string
+          profile_id?: string
           progress_seconds?: number | null
           user_id?: string
           watched_at?: string
@@ -284,28 +949,54 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "viewing_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       watchlist: {
         Row: {
           created_at: string
           id: string
+          list_id: string
           movie_id: string
+          note: string | null
+          position: number
+          profile_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
+          list_id: string
           movie_id: string
+          note?: string | null
+          position?: number
+          profile_id?: string
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
+          list_id?: string
           movie_id?: string
+          note?: string | null
+          position?: number
+          profile_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "watchlist_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "watchlists"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "watchlist_movie_id_fkey"
             columns: ["movie_id"]
@@ -313,17 +1004,322 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "watchlist_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      watchlists: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          profile_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          profile_id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          profile_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watchlists_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      movie_trending_scores: {
+        Row: {
+          movie_id: string | null
+          refreshed_at: string | null
+          score_24h: number | null
+          score_7d: number | null
+          trending_score: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      account_profile_limit: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      account_stream_limit: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      apply_tier_rules: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      because_you_watched: {
+        Args: { result_limit?: number }
+        Returns: {
+          description: string
+          duration_minutes: number
+          genre: string[]
+          id: string
+          poster_url: string
+          rating: number
+          reason: string
+          release_year: number
+          score: number
+          source_movie_id: string
+          source_title: string
+          subscription_tier: string
+          title: string
+        }[]
+      }
+      check_account_pin: {
+        Args: { _pin: string; _user_id: string }
+        Returns: boolean
+      }
+      check_parental_pin: {
+        Args: { _pin: string; _profile_id: string }
+        Returns: boolean
+      }
+      current_profile_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_session_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      end_stream: {
+        Args: { _session_id?: string }
+        Returns: undefined
+      }
+      get_devices: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          is_current: boolean
+          last_seen_at: string
+          name: string
+          session_id: string
+          streaming_profile: string
+          streaming_title: string
+        }[]
+      }
+      get_parental_controls: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          locked_until: string
+          max_maturity_level: number
+        }[]
+      }
+      has_account_pin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_catalog_editor: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      movie_search_document: {
+        Args: {
+          description: string
+          genre: string[]
+          title: string
+        }
+        Returns: unknown
+      }
+      movie_similarity: {
+        Args: { seed_ids: string[] }
+        Returns: {
+          movie_id: string
+          reason: string
+          score: number
+          seed_id: string
+        }[]
+      }
+      profile_can_watch: {
+        Args: { _movie_id: string; _profile_id: string }
+        Returns: boolean
+      }
+      profile_max_maturity: {
+        Args: { _profile_id: string }
+        Returns: number
+      }
+      profile_seen_movie_ids: {
+        Args: { _profile_id: string }
+        Returns: string[]
+      }
+      recommended_movies: {
+        Args: { result_limit?: number }
+        Returns: {
+          description: string
+          duration_minutes: number
+          genre: string[]
+          id: string
+          poster_url: string
+          rating: number
+          reason: string
+          release_year: number
+          score: number
+          source_movie_id: string
+          source_title: string
+          subscription_tier: string
+          title: string
+        }[]
+      }
+      refresh_movie_genre_names: {
+        Args: { _movie_ids: string[] }
+        Returns: undefined
+      }
+      refresh_trending_scores: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      register_device: {
+        Args: { _name: string; _user_agent?: string }
+        Returns: string
+      }
+      reorder_watchlist: {
+        Args: { _list_id: string; _movie_ids: string[] }
+        Returns: undefined
+      }
+      resolve_movie_tier: {
+        Args: {
+          _popularity: number
+          _rating: number
+          _release_date: string
+        }
+        Returns: string
+      }
+      search_movies: {
+        Args: {
+          genres?: string[]
+          max_duration?: number
+          max_maturity?: number
+          max_rating?: number
+          max_year?: number
+          min_duration?: number
+          min_rating?: number
+          min_year?: number
+          page_limit?: number
+          page_offset?: number
+          search_term?: string
+          sort_by?: string
+          sort_order?: string
+          tier?: string
+        }
+        Returns: Database["public"]["Tables"]["movies"]["Row"][]
+      }
+      search_people: {
+        Args: { result_limit?: number; search_term: string }
+        Returns: {
+          known_for: string
+          movie_count: number
+          name: string
+          profile_picture_url: string
+          tmdb_person_id: number
+        }[]
+      }
+      select_profile: {
+        Args: { _pin?: string; _profile_id: string }
+        Returns: boolean
+      }
+      selected_profile_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      set_account_pin: {
+        Args: { _new_pin: string }
+        Returns: undefined
+      }
+      set_parental_controls: {
+        Args: {
+          _current_pin?: string
+          _max_maturity_level?: number
+          _new_pin?: string
+        }
+        Returns: boolean
+      }
+      sign_out_device: {
+        Args: { _session_id: string }
+        Returns: undefined
+      }
+      similar_movies: {
+        Args: {
+          exclude_seen?: boolean
+          result_limit?: number
+          target_movie_id: string
+        }
+        Returns: {
+          description: string
+          duration_minutes: number
+          genre: string[]
+          id: string
+          poster_url: string
+          rating: number
+          reason: string
+          release_year: number
+          score: number
+          subscription_tier: string
+          title: string
+        }[]
+      }
+      start_stream: {
+        Args: { _movie_id: string }
+        Returns: boolean
+      }
+      stream_heartbeat: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      unlock_restricted_movie: {
+        Args: { _movie_id: string; _pin: string }
+        Returns: boolean
+      }
+      viewer_can_browse: {
+        Args: { _maturity_level: number }
+        Returns: boolean
+      }
+      viewer_can_watch: {
+        Args: { _movie_id: string }
+        Returns: boolean
+      }
+      viewer_max_maturity: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "editor" | "support"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -450,6 +1446,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "editor", "support"],
+    },
   },
 } as const
@@ -0,0 +1,20 @@
+// US certifications in order of maturity. A rating's index is its maturity
+// level, matching movies.maturity_level in the database.
+export const MATURITY_RATINGS = ['G', 'PG', 'PG-13', 'R', 'NC-17'];
+
+// Parental limits stop at R; an NC-17 limit would restrict nothing
+export const PARENTAL_LIMIT_RATINGS = MATURITY_RATINGS.slice(0, 4);
+
+// Kids profiles are held to PG on top of any parental limit
+export const KIDS_MATURITY_LEVEL = 1;
+
+// Unrated titles count as the most mature, so any limit hides them
+export const UNRATED_MATURITY_LEVEL = MATURITY_RATINGS.length - 1;
+
+export const maturityLevelFor = (rating: string) => {
+  const level = MATURITY_RATINGS.indexOf(rating);
+  return level === -1 ? null : level;
+};
+
+export const isWithinMaturityLimit = (maturityLevel: number | null | undefined, limit: number | null) =>
+  limit === null || (maturityLevel ?? UNRATED_MATURITY_LEVEL) <= limit;
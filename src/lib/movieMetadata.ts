@@ -0,0 +1,24 @@
+// Display helpers for the metadata imported from TMDB
+
+// Runtimes are unknown for some titles until the next sync fills them in
+export const formatRuntime = (minutes: number | null | undefined) => {
+  if (!minutes) return null;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const displayName = (type: 'language' | 'region', code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type }).of(code) ?? code;
+  } catch {
+    // Codes Intl doesn't recognise are shown as they are
+    return code;
+  }
+};
+
+// ISO 639-1, e.g. "fr" -> "French"
+export const languageName = (code: string) => displayName('language', code);
+
+// ISO 3166-1, e.g. "GB" -> "United Kingdom"
+export const countryName = (code: string) => displayName('region', code);
+
+export const imdbUrl = (imdbId: string) => `https://www.imdb.com/title/${imdbId}/`;
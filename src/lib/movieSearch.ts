@@ -0,0 +1,132 @@
+import { MATURITY_RATINGS, maturityLevelFor } from '@/lib/maturity';
+
+// The home page's filter set, as sent to the search_movies RPC
+export interface MovieSearchFilters {
+  searchTerm: string;
+  genres: string[];
+  yearRange: { min: number; max: number };
+  ratingRange: { min: number; max: number };
+  durationRange: { min: number; max: number };
+  subscriptionFilter: string;
+  maturityFilter: string;
+  sortBy: string;
+  sortOrder: string;
+}
+
+export const MIN_RELEASE_YEAR = 1970;
+export const MAX_DURATION_MINUTES = 300;
+
+export const DEFAULT_SEARCH_FILTERS: MovieSearchFilters = {
+  searchTerm: '',
+  genres: [],
+  yearRange: { min: MIN_RELEASE_YEAR, max: new Date().getFullYear() },
+  ratingRange: { min: 0, max: 10 },
+  durationRange: { min: 0, max: MAX_DURATION_MINUTES },
+  subscriptionFilter: 'all',
+  maturityFilter: 'all',
+  sortBy: 'release_year',
+  sortOrder: 'desc',
+};
+
+// Ranges left at their defaults are omitted so the RPC skips them, which keeps
+// movies with a missing year or runtime in unfiltered results
+export const toSearchRpcArgs = (filters: MovieSearchFilters, page: number, pageSize: number) => {
+  const defaults = DEFAULT_SEARCH_FILTERS;
+  return {
+    search_term: filters.searchTerm.trim() || undefined,
+    genres: filters.genres.length > 0 ? filters.genres : undefined,
+    min_year: filters.yearRange.min !== defaults.yearRange.min ? filters.yearRange.min : undefined,
+    max_year: filters.yearRange.max !== defaults.yearRange.max ? filters.yearRange.max : undefined,
+    min_rating: filters.ratingRange.min !== defaults.ratingRange.min ? filters.ratingRange.min : undefined,
+    max_rating: filters.ratingRange.max !== defaults.ratingRange.max ? filters.ratingRange.max : undefined,
+    min_duration: filters.durationRange.min !== defaults.durationRange.min ? filters.durationRange.min : undefined,
+    max_duration: filters.durationRange.max !== defaults.durationRange.max ? filters.durationRange.max : undefined,
+    tier: filters.subscriptionFilter !== 'all' ? filters.subscriptionFilter : undefined,
+    max_maturity: maturityLevelFor(filters.maturityFilter) ?? undefined,
+    sort_by: filters.sortBy,
+    sort_order: filters.sortOrder,
+    page_offset: page * pageSize,
+    page_limit: pageSize,
+  };
+};
+
+export const SORT_OPTIONS = ['created_at', 'title', 'release_year', 'release_date', 'rating', 'duration_minutes', 'trending'];
+export const QUICK_FILTERS = ['new-releases', 'top-rated', 'trending', 'classics'];
+const TIER_FILTERS = ['Basic', 'Premium'];
+
+const formatRange = (range: { min: number; max: number }) => `${range.min}-${range.max}`;
+
+const parseRange = (value: string | null, fallback: { min: number; max: number }) => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (!match) return fallback;
+  return { min: parseFloat(match[1]), max: parseFloat(match[2]) };
+};
+
+// Query-string schema for the home page, e.g.
+// ?q=heist&genres=Crime,Thriller&year=1990-2010&rating=7-10&duration=0-120&tier=Premium&maturity=PG-13&sort=rating&order=asc&quick=top-rated
+// Values at their defaults are left out so an unfiltered page has a clean URL.
+export const filtersToSearchParams = (filters: MovieSearchFilters, quickFilter: string): URLSearchParams => {
+  const defaults = DEFAULT_SEARCH_FILTERS;
+  const params = new URLSearchParams();
+
+  if (filters.searchTerm.trim()) params.set('q', filters.searchTerm.trim());
+  if (filters.genres.length > 0) params.set('genres', filters.genres.join(','));
+  if (formatRange(filters.yearRange) !== formatRange(defaults.yearRange)) params.set('year', formatRange(filters.yearRange));
+  if (formatRange(filters.ratingRange) !== formatRange(defaults.ratingRange)) params.set('rating', formatRange(filters.ratingRange));
+  if (formatRange(filters.durationRange) !== formatRange(defaults.durationRange)) params.set('duration', formatRange(filters.durationRange));
+  if (filters.subscriptionFilter !== defaults.subscriptionFilter) params.set('tier', filters.subscriptionFilter);
+  if (filters.maturityFilter !== defaults.maturityFilter) params.set('maturity', filters.maturityFilter);
+  if (filters.sortBy !== defaults.sortBy) params.set('sort', filters.sortBy);
+  if (filters.sortOrder !== defaults.sortOrder) params.set('order', filters.sortOrder);
+  if (quickFilter) params.set('quick', quickFilter);
+
+  return params;
+};
+
+// Unknown or malformed values fall back to the defaults rather than failing the page
+export const filtersFromSearchParams = (params: URLSearchParams): { filters: MovieSearchFilters; quickFilter: string } => {
+  const defaults = DEFAULT_SEARCH_FILTERS;
+  const tier = params.get('tier');
+  const maturity = params.get('maturity');
+  const sort = params.get('sort');
+  const order = params.get('order');
+  const quick = params.get('quick');
+
+  return {
+    filters: {
+      searchTerm: params.get('q') ?? defaults.searchTerm,
+      genres: params.get('genres')?.split(',').filter(Boolean) ?? defaults.genres,
+      yearRange: parseRange(params.get('year'), defaults.yearRange),
+      ratingRange: parseRange(params.get('rating'), defaults.ratingRange),
+      durationRange: parseRange(params.get('duration'), defaults.durationRange),
+      subscriptionFilter: tier && TIER_FILTERS.includes(tier) ? tier : defaults.subscriptionFilter,
+      maturityFilter: maturity && MATURITY_RATINGS.includes(maturity) ? maturity : defaults.maturityFilter,
+      sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : defaults.sortBy,
+      sortOrder: order === 'asc' || order === 'desc' ? order : defaults.sortOrder,
+    },
+    quickFilter: quick && QUICK_FILTERS.includes(quick) ? quick : '',
+  };
+};
+
+const BROWSE_POSITION_KEY = 'homeBrowsePosition';
+
+interface BrowsePosition {
+  search: string;
+  scrollY: number;
+  pages: number;
+}
+
+// Remembers how far the grid was scrolled, and how many pages it took to get there,
+// so returning from a movie page can reload those pages and scroll back
+export const saveBrowsePosition = (position: BrowsePosition) => {
+  sessionStorage.setItem(BROWSE_POSITION_KEY, JSON.stringify(position));
+};
+
+export const readBrowsePosition = (search: string): BrowsePosition | null => {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(BROWSE_POSITION_KEY) || 'null') as BrowsePosition | null;
+    return saved && saved.search === search ? saved : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,21 @@
+// Fraction of a title that must be watched before it counts as completed
+export const COMPLETION_THRESHOLD = 0.95;
+
+// How often the player writes progress back to viewing_history
+export const PROGRESS_SAVE_INTERVAL_MS = 10000;
+
+// How often the player renews its stream slot; the server drops slots not renewed for three minutes
+export const STREAM_HEARTBEAT_INTERVAL_MS = 60000;
+
+// Formats a position in seconds as m:ss or h:mm:ss (e.g. 42:10, 1:05:09)
+export const formatPlaybackTime = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+};
@@ -0,0 +1,33 @@
+// Formats an amount in the currency's minor unit (pence, cents) for display, e.g. 1000 gbp -> £10
+export const formatPrice = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: amount % 100 === 0 ? 0 : 2,
+  }).format(amount / 100);
+};
+
+export const SUPPORTED_CURRENCIES = ['gbp', 'eur', 'usd'] as const;
+export type Currency = typeof SUPPORTED_CURRENCIES[number];
+
+// Eurozone regions, used to map a browser locale such as de-DE or fr-FR to EUR
+const EURO_REGIONS = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE',
+  'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'
+];
+
+// Best guess at the visitor's currency from the browser locale, defaulting to GBP
+export const detectCurrency = (locale: string = navigator.language): Currency => {
+  const region = locale.split('-')[1]?.toUpperCase();
+  if (!region) return 'gbp';
+  if (EURO_REGIONS.includes(region)) return 'eur';
+  if (region === 'US') return 'usd';
+  return 'gbp';
+};
+
+// Percentage saved by paying annually instead of twelve monthly payments
+export const annualSavingsPercent = (monthlyAmount: number, annualAmount: number): number => {
+  const fullYear = monthlyAmount * 12;
+  if (fullYear <= 0) return 0;
+  return Math.round(((fullYear - annualAmount) / fullYear) * 100);
+};
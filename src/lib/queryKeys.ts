@@ -0,0 +1,18 @@
+import { MovieSearchFilters } from '@/lib/movieSearch';
+
+// React Query cache keys shared by every page. Anything RLS scopes to the viewer
+// is keyed by the profile picked on this device, so switching profile never shows
+// another profile's cached rows, and invalidating a key refreshes it on every page.
+export const queryKeys = {
+  movies: {
+    search: (profileId: string | null, filters: MovieSearchFilters) => ['movies', 'search', profileId, filters] as const,
+    detail: (movieId: string) => ['movies', 'detail', movieId] as const,
+    similar: (profileId: string | null, movieId: string) => ['movies', 'similar', profileId, movieId] as const,
+    canWatch: (profileId: string | null, movieId: string) => ['movies', 'can-watch', profileId, movieId] as const,
+  },
+  recommendations: (profileId: string | null) => ['recommendations', profileId] as const,
+  watchlists: (profileId: string | null) => ['watchlists', profileId] as const,
+  watchlist: (profileId: string | null) => ['watchlist', profileId] as const,
+  ratings: (profileId: string | null) => ['ratings', profileId] as const,
+  viewingHistory: (profileId: string | null) => ['viewing-history', profileId] as const,
+};
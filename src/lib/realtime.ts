@@ -0,0 +1,34 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// How often to reload synced data while a Realtime channel is down
+export const REALTIME_FALLBACK_POLL_MS = 30000;
+
+// Subscribes a Realtime channel and covers for it while it's disconnected: resync
+// runs on a timer until the channel rejoins, then once more to pick up anything
+// missed in between. Returns a cleanup that stops the timer and removes the channel.
+export const subscribeWithFallback = (channel: RealtimeChannel, resync: () => void) => {
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let removed = false;
+
+  channel.subscribe((status) => {
+    if (removed) return;
+
+    if (status === 'SUBSCRIBED') {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+        resync();
+      }
+    } else if (!pollTimer) {
+      // CHANNEL_ERROR, TIMED_OUT or CLOSED; supabase-js keeps trying to rejoin meanwhile
+      pollTimer = setInterval(resync, REALTIME_FALLBACK_POLL_MS);
+    }
+  });
+
+  return () => {
+    removed = true;
+    if (pollTimer) clearInterval(pollTimer);
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,38 @@
+// Whole days left before a trial ends, rounded up so the last day still reads as 1
+export const trialDaysRemaining = (trialEndsAt: string, now: Date = new Date()): number => {
+  const msRemaining = new Date(trialEndsAt).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(msRemaining / (1000 * 60 * 60 * 24)));
+};
+
+// Mirrors the server-side check in get-playback-url; used to decide what the UI offers,
+// while playback itself is authorised by the edge function
+export const hasTierAccess = (subscribed: boolean, subscriptionTier: string | null, movieTier: string): boolean => {
+  if (!subscribed) return false;
+  if (movieTier === 'Basic') return true;
+  return subscriptionTier === 'Premium';
+};
+
+// Mirrors account_profile_limit in the database, which enforces it when a profile is added.
+// A subscription with no known tier gets the unsubscribed allowance, as it does there.
+export const profileLimit = (subscribed: boolean, subscriptionTier: string | null): number => {
+  if (!subscribed) return 1;
+  if (subscriptionTier === 'Premium') return 4;
+  if (subscriptionTier === 'Basic') return 2;
+  return 1;
+};
+
+// Mirrors account_stream_limit in the database, which get-playback-url enforces
+export const streamLimit = (subscribed: boolean, subscriptionTier: string | null): number => {
+  if (!subscribed) return 0;
+  if (subscriptionTier === 'Premium') return 4;
+  if (subscriptionTier === 'Basic') return 1;
+  return 0;
+};
+
+// Mirrors account_device_limit in the database, which register_device enforces
+export const deviceLimit = (subscribed: boolean, subscriptionTier: string | null): number => {
+  if (!subscribed) return 2;
+  if (subscriptionTier === 'Premium') return 10;
+  if (subscriptionTier === 'Basic') return 5;
+  return 2;
+};
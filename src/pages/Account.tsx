@@ -4,54 +4,49 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
-import { ArrowLeft, Crown, User, Calendar, CreditCard, Film, Star, Download, Database } from 'lucide-react';
+import { ArrowLeft, Crown, User, Calendar, CreditCard, Film, Star, Hourglass, Pencil } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useRatings } from '@/hooks/use-ratings';
+import { useViewingHistoryCount } from '@/hooks/use-viewing-history';
+import { trialDaysRemaining } from '@/lib/subscription';
+import RoleManagementCard from '@/components/RoleManagementCard';
+import CatalogImportCard from '@/components/CatalogImportCard';
+import TierRulesCard from '@/components/TierRulesCard';
+import ParentalControlsCard from '@/components/ParentalControlsCard';
+import AccountPinCard from '@/components/AccountPinCard';
+import DevicesCard from '@/components/DevicesCard';
 
 const Account = () => {
-  const { user, subscribed, subscriptionTier, subscriptionEnd, checkSubscription } = useAuth();
+  const { user, subscribed, subscriptionTier, subscriptionEnd, subscriptionStatus, trialEndsAt, checkSubscription } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
-  const [populatingMovies, setPopulatingMovies] = useState(false);
   const [isAdminUser, setIsAdminUser] = useState(false);
-  const [stats, setStats] = useState({
-    watchlistCount: 0,
-    ratingsCount: 0,
-    viewingHistoryCount: 0
-  });
+  const [canEditCatalog, setCanEditCatalog] = useState(false);
+  const { movieIds: savedMovieIds } = useWatchlist();
+  const { ratings } = useRatings();
+  const viewingHistoryCount = useViewingHistoryCount();
+
+  const stats = {
+    // A title in several lists counts once
+    watchlistCount: savedMovieIds.size,
+    ratingsCount: Object.keys(ratings).length,
+    viewingHistoryCount
+  };
 
   useEffect(() => {
     if (!user) {
       navigate('/auth');
       return;
     }
-    fetchUserStats();
     checkSubscription();
     checkAdminStatus();
   }, [user, navigate]);
 
-  const fetchUserStats = async () => {
-    if (!user) return;
-
-    try {
-      const [watchlistRes, ratingsRes, historyRes] = await Promise.all([
-        supabase.from('watchlist').select('id', { count: 'exact' }).eq('user_id', user.id),
-        supabase.from('user_ratings').select('id', { count: 'exact' }).eq('user_id', user.id),
-        supabase.from('viewing_history').select('id', { count: 'exact' }).eq('user_id', user.id)
-      ]);
-
-      setStats({
-        watchlistCount: watchlistRes.count || 0,
-        ratingsCount: ratingsRes.count || 0,
-        viewingHistoryCount: historyRes.count || 0
-      });
-    } catch (error) {
-      console.error('Error fetching user stats:', error);
-    }
-  };
-
   const handleManageSubscription = async () => {
     setLoading(true);
     
@@ -76,31 +71,6 @@ const Account = () => {
     }
   };
 
-  const populateMovies = async () => {
-    if (populatingMovies) return;
-    
-    setPopulatingMovies(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('populate-movies');
-      
-      if (error) throw error;
-      
-      toast({
-        title: "Success!",
-        description: `${data.message}`,
-      });
-    } catch (error) {
-      console.error('Error populating movies:', error);
-      toast({
-        title: "Error",
-        description: "Failed to populate movies. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setPopulatingMovies(false);
-    }
-  };
-
   const checkAdminStatus = async () => {
     if (!user) return;
 
@@ -114,6 +84,7 @@ const Account = () => {
       }
       
       setIsAdminUser(data?.isAdmin || false);
+      setCanEditCatalog((data?.roles || []).some((role: string) => role === 'admin' || role === 'editor'));
     } catch (error) {
       console.error('Error checking admin status:', error);
       setIsAdminUser(false);
@@ -133,34 +104,43 @@ const Account = () => {
           <h1 className="text-3xl font-bold">My Account</h1>
         </div>
 
+        {trialEndsAt && (
+          <Alert className="mb-8 border-primary/30 bg-primary/5">
+            <Hourglass className="h-4 w-4" />
+            <AlertTitle>
+              {trialDaysRemaining(trialEndsAt) === 1
+                ? 'Your free trial ends tomorrow'
+                : `Your free trial ends in ${trialDaysRemaining(trialEndsAt)} days`}
+            </AlertTitle>
+            <AlertDescription>
+              Your {subscriptionTier} plan will start billing on {new Date(trialEndsAt).toLocaleDateString()}. Cancel any time before then from Manage Subscription.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
-          {/* Admin Controls - Only show for approved emails */}
-          {isAdminUser && (
-            <Card className="lg:col-span-3 border-primary/20 bg-primary/5">
+          {/* Admin Controls - Only show for users with the admin role */}
+          {canEditCatalog && (
+            <Card className="lg:col-span-3">
               <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-primary">
-                  <Database className="h-5 w-5" />
-                  Admin Controls
+                <CardTitle className="flex items-center gap-2">
+                  <Pencil className="h-5 w-5" />
+                  Catalog Editor
                 </CardTitle>
                 <CardDescription>
-                  Manage movie database content
+                  Fix movie details, credits, tiers and video sources, and review who changed what
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Button 
-                  onClick={populateMovies}
-                  disabled={populatingMovies}
-                  className="w-full sm:w-auto"
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  {populatingMovies ? 'Populating Database...' : 'Populate Top 1000 Movies Since 1970'}
-                </Button>
-                <p className="text-sm text-muted-foreground mt-2">
-                  This will clear all existing movie data and populate with fresh content from TMDB.
-                </p>
+                <Link to="/admin/movies">
+                  <Button>Open Catalog Editor</Button>
+                </Link>
               </CardContent>
             </Card>
           )}
+          {isAdminUser && <CatalogImportCard />}
+          {isAdminUser && <TierRulesCard />}
+          {isAdminUser && <RoleManagementCard />}
           {/* Profile Info */}
           <Card>
             <CardHeader>
@@ -180,6 +160,9 @@ const Account = () => {
                   {user?.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A'}
                 </p>
               </div>
+              <Link to="/profiles" className="block">
+                <Button variant="outline" className="w-full">Switch or Manage Profiles</Button>
+              </Link>
             </CardContent>
           </Card>
 
@@ -199,8 +182,20 @@ const Account = () => {
                       <Crown className="h-3 w-3" />
                       {subscriptionTier}
                     </Badge>
-                    <span className="text-sm text-green-600">Active</span>
+                    {subscriptionStatus === 'past_due' ? (
+                      <span className="text-sm text-destructive">Payment failed</span>
+                    ) : trialEndsAt ? (
+                      <span className="text-sm text-primary">Free trial</span>
+                    ) : (
+                      <span className="text-sm text-green-600">Active</span>
+                    )}
                   </div>
+
+                  {subscriptionStatus === 'past_due' && (
+                    <p className="text-sm text-muted-foreground">
+                      We couldn't take your last payment. Update your payment method to keep watching.
+                    </p>
+                  )}
                   
                   {subscriptionEnd && (
                     <div>
@@ -235,7 +230,7 @@ const Account = () => {
           <Card>
             <CardHeader>
               <CardTitle>Your Activity</CardTitle>
-              <CardDescription>Your streaming statistics</CardDescription>
+              <CardDescription>Streaming statistics for this profile</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="flex justify-between items-center">
@@ -267,6 +262,15 @@ const Account = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Parental Controls */}
+          <ParentalControlsCard />
+
+          {/* Account PIN */}
+          <AccountPinCard />
+
+          {/* Devices */}
+          <DevicesCard />
         </div>
       </div>
     </div>
@@ -0,0 +1,529 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { ArrowLeft, ExternalLink, Save, ShieldAlert } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useIsCatalogEditor } from '@/hooks/use-catalog-editor';
+import MovieCreditsEditor from '@/components/MovieCreditsEditor';
+import CatalogAuditLog from '@/components/CatalogAuditLog';
+import { MATURITY_RATINGS } from '@/lib/maturity';
+
+interface Genre {
+  id: string;
+  name: string;
+}
+
+// Blank means "unknown" for every optional field
+const optionalUrl = z.string().trim().url('Enter a full URL, including https://').or(z.literal(''));
+
+const optionalNumber = (min: number, max: number, message: string, integer = true) =>
+  z.string().trim().refine((value) => {
+    if (value === '') return true;
+    const number = Number(value);
+    return !Number.isNaN(number) && (!integer || Number.isInteger(number)) && number >= min && number <= max;
+  }, message);
+
+const movieSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  tagline: z.string().trim().max(300),
+  description: z.string().trim().max(5000),
+  release_year: optionalNumber(1888, new Date().getFullYear() + 5, 'Enter a four-digit year'),
+  duration_minutes: optionalNumber(1, 600, 'Enter a runtime between 1 and 600 minutes'),
+  rating: optionalNumber(0, 10, 'Enter a rating between 0 and 10', false),
+  certification: z.string(),
+  poster_url: optionalUrl,
+  backdrop_url: optionalUrl,
+  trailer_url: optionalUrl,
+  subscription_tier: z.enum(['Basic', 'Premium']),
+  tier_locked: z.boolean(),
+  sync_locked: z.boolean(),
+  video_url: z.string().trim().max(1000),
+  genre_ids: z.array(z.string()),
+});
+
+type MovieFormValues = z.infer<typeof movieSchema>;
+
+const toNumberOrNull = (value: string) => value === '' ? null : Number(value);
+
+const AdminMovieEdit = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { isCatalogEditor, checking } = useIsCatalogEditor();
+  const [genres, setGenres] = useState<Genre[]>([]);
+  const [hadVideo, setHadVideo] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  // Bumped after each save so the history below picks up the new entries
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  const form = useForm<MovieFormValues>({
+    resolver: zodResolver(movieSchema),
+    defaultValues: {
+      title: '',
+      tagline: '',
+      description: '',
+      release_year: '',
+      duration_minutes: '',
+      rating: '',
+      certification: 'unrated',
+      poster_url: '',
+      backdrop_url: '',
+      trailer_url: '',
+      subscription_tier: 'Basic',
+      tier_locked: false,
+      sync_locked: false,
+      video_url: '',
+      genre_ids: [],
+    },
+  });
+
+  const fetchMovie = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      const [movieRes, videoRes, movieGenresRes, genresRes] = await Promise.all([
+        supabase.from('movies').select('*').eq('id', id).maybeSingle(),
+        supabase.from('movie_videos').select('video_url').eq('movie_id', id).maybeSingle(),
+        supabase.from('movie_genres').select('genre_id').eq('movie_id', id).order('position', { ascending: true }),
+        supabase.from('genres').select('id, name').order('name', { ascending: true }),
+      ]);
+
+      if (movieRes.error) throw movieRes.error;
+      if (videoRes.error) throw videoRes.error;
+      if (movieGenresRes.error) throw movieGenresRes.error;
+      if (genresRes.error) throw genresRes.error;
+
+      const movie = movieRes.data;
+      if (!movie) {
+        setNotFound(true);
+        return;
+      }
+
+      setGenres(genresRes.data || []);
+      setHadVideo(!!videoRes.data);
+      form.reset({
+        title: movie.title,
+        tagline: movie.tagline ?? '',
+        description: movie.description ?? '',
+        release_year: movie.release_year?.toString() ?? '',
+        duration_minutes: movie.duration_minutes?.toString() ?? '',
+        rating: movie.rating?.toString() ?? '',
+        // Certifications outside the US scale count as unrated, like they do for parental controls
+        certification: movie.certification && MATURITY_RATINGS.includes(movie.certification) ? movie.certification : 'unrated',
+        poster_url: movie.poster_url ?? '',
+        backdrop_url: movie.backdrop_url ?? '',
+        trailer_url: movie.trailer_url ?? '',
+        subscription_tier: movie.subscription_tier === 'Premium' ? 'Premium' : 'Basic',
+        tier_locked: movie.tier_locked,
+        sync_locked: movie.sync_locked,
+        video_url: videoRes.data?.video_url ?? '',
+        genre_ids: (movieGenresRes.data || []).map((link) => link.genre_id),
+      });
+    } catch (error) {
+      console.error('Error fetching movie:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load movie",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, form, toast]);
+
+  useEffect(() => {
+    if (isCatalogEditor) fetchMovie();
+  }, [isCatalogEditor, fetchMovie]);
+
+  const onSubmit = async (values: MovieFormValues) => {
+    if (!id) return;
+
+    try {
+      // With tier_locked off, the tier rules pick the tier and override subscription_tier
+      const { error: movieError } = await supabase
+        .from('movies')
+        .update({
+          title: values.title,
+          tagline: values.tagline || null,
+          description: values.description || null,
+          release_year: toNumberOrNull(values.release_year),
+          duration_minutes: toNumberOrNull(values.duration_minutes),
+          rating: toNumberOrNull(values.rating),
+          certification: values.certification === 'unrated' ? null : values.certification,
+          poster_url: values.poster_url || null,
+          backdrop_url: values.backdrop_url || null,
+          trailer_url: values.trailer_url || null,
+          subscription_tier: values.subscription_tier,
+          tier_locked: values.tier_locked,
+          sync_locked: values.sync_locked,
+        })
+        .eq('id', id);
+      if (movieError) throw movieError;
+
+      if (values.video_url) {
+        const { error } = await supabase
+          .from('movie_videos')
+          .upsert({ movie_id: id, video_url: values.video_url }, { onConflict: 'movie_id' });
+        if (error) throw error;
+      } else if (hadVideo) {
+        const { error } = await supabase.from('movie_videos').delete().eq('movie_id', id);
+        if (error) throw error;
+      }
+
+      let staleGenres = supabase.from('movie_genres').delete().eq('movie_id', id);
+      if (values.genre_ids.length > 0) staleGenres = staleGenres.not('genre_id', 'in', `(${values.genre_ids.join(',')})`);
+      const { error: staleError } = await staleGenres;
+      if (staleError) throw staleError;
+
+      if (values.genre_ids.length > 0) {
+        const { error } = await supabase
+          .from('movie_genres')
+          .upsert(values.genre_ids.map((genreId, position) => ({ movie_id: id, genre_id: genreId, position })), {
+            onConflict: 'movie_id,genre_id',
+          });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Movie saved",
+        description: `${values.title} has been updated.`,
+      });
+      form.reset(values);
+      setHadVideo(!!values.video_url);
+      setHistoryVersion((version) => version + 1);
+    } catch (error) {
+      console.error('Error saving movie:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save movie",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const tierLocked = form.watch('tier_locked');
+
+  if (checking || (isCatalogEditor && loading && !notFound)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!isCatalogEditor || notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-4">
+            {notFound ? 'Movie not found' : 'Catalog editors only'}
+          </h2>
+          <Link to={notFound ? '/admin/movies' : '/'}>
+            <Button>{notFound ? 'Back to Catalog' : 'Back to Movies'}</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link to="/admin/movies">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Catalog
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold">{form.getValues('title') || 'Edit movie'}</h1>
+          </div>
+          <Link to={`/movie/${id}`}>
+            <Button variant="outline" size="sm">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View page
+            </Button>
+          </Link>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+                <CardDescription>Blank fields are shown as unknown.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tagline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tagline</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={4} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="release_year"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Release year</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="duration_minutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Runtime (minutes)</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="rating"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rating (0-10)</FormLabel>
+                        <FormControl>
+                          <Input inputMode="decimal" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="certification"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Certification</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="unrated">Unrated</SelectItem>
+                            {MATURITY_RATINGS.map((rating) => (
+                              <SelectItem key={rating} value={rating}>{rating}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {(['poster_url', 'backdrop_url', 'trailer_url'] as const).map((name) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {name === 'poster_url' ? 'Poster URL' : name === 'backdrop_url' ? 'Backdrop URL' : 'Trailer URL'}
+                        </FormLabel>
+                        <FormControl>
+                          <Input type="url" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <FormField
+                  control={form.control}
+                  name="video_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Video source</FormLabel>
+                      <FormControl>
+                        <Input placeholder="movies/example.mp4" {...field} />
+                      </FormControl>
+                      <FormDescription>Path in the private videos bucket, or an absolute URL.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="genre_ids"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Genres</FormLabel>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2">
+                        {genres.map((genre) => (
+                          <label key={genre.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={field.value.includes(genre.id)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked === true
+                                  ? [...field.value, genre.id]
+                                  : field.value.filter((genreId) => genreId !== genre.id)
+                              )}
+                            />
+                            {genre.name}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-4 md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="tier_locked"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                        <div className="space-y-1">
+                          <FormLabel>Set the tier by hand</FormLabel>
+                          <FormDescription>When off, the tier rules choose this movie's tier.</FormDescription>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          {tierLocked && (
+                            <FormField
+                              control={form.control}
+                              name="subscription_tier"
+                              render={({ field: tierField }) => (
+                                <Select value={tierField.value} onValueChange={tierField.onChange}>
+                                  <SelectTrigger className="w-32">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="Basic">Basic</SelectItem>
+                                    <SelectItem value="Premium">Premium</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            />
+                          )}
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="sync_locked"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                        <div className="space-y-1">
+                          <FormLabel>Keep edits when syncing from TMDB</FormLabel>
+                          <FormDescription>
+                            TMDB syncs skip this movie, including its genres and credits, while this is on.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="md:col-span-2 flex justify-end">
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save changes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </form>
+        </Form>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cast & Crew</CardTitle>
+            <CardDescription>Changes here are saved straight away.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MovieCreditsEditor movieId={id!} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CatalogAuditLog key={historyVersion} movieId={id} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminMovieEdit;
@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Lock, Pencil, Search, ShieldAlert, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useIsCatalogEditor } from '@/hooks/use-catalog-editor';
+import CatalogAuditLog from '@/components/CatalogAuditLog';
+
+interface AdminMovie {
+  id: string;
+  title: string;
+  release_year: number | null;
+  subscription_tier: string;
+  tier_locked: boolean;
+  sync_locked: boolean;
+  tmdb_id: number | null;
+}
+
+// 'rules' hands the selected movies back to the tier rules
+type BulkTier = 'Basic' | 'Premium' | 'rules';
+
+const PAGE_SIZE = 25;
+
+const AdminMovies = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isCatalogEditor, checking } = useIsCatalogEditor();
+  const [movies, setMovies] = useState<AdminMovie[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [tierFilter, setTierFilter] = useState('all');
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkTier, setBulkTier] = useState<BulkTier>('Premium');
+  const [pendingDelete, setPendingDelete] = useState<AdminMovie | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchMovies = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('movies')
+        .select('id, title, release_year, subscription_tier, tier_locked, sync_locked, tmdb_id', { count: 'exact' })
+        .order('title', { ascending: true })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+      if (searchTerm) query = query.ilike('title', `%${searchTerm.replace(/[\\%_]/g, '\\$&')}%`);
+      if (tierFilter !== 'all') query = query.eq('subscription_tier', tierFilter);
+
+      const { data, count, error } = await query;
+      if (error) throw error;
+      setMovies(data || []);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching movies:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load movies",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, searchTerm, tierFilter, toast]);
+
+  useEffect(() => {
+    if (isCatalogEditor) fetchMovies();
+  }, [isCatalogEditor, fetchMovies]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setSelected(new Set());
+    setSearchTerm(searchInput.trim());
+  };
+
+  const toggleSelected = (movieId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(movieId);
+      else next.delete(movieId);
+      return next;
+    });
+  };
+
+  const allOnPageSelected = movies.length > 0 && movies.every(movie => selected.has(movie.id));
+
+  const toggleAllOnPage = (checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      movies.forEach(movie => checked ? next.add(movie.id) : next.delete(movie.id));
+      return next;
+    });
+  };
+
+  // A hand-picked tier is locked so the tier rules don't overwrite it
+  const handleBulkTier = async () => {
+    if (selected.size === 0 || saving) return;
+
+    setSaving(true);
+    try {
+      const changes = bulkTier === 'rules'
+        ? { tier_locked: false }
+        : { subscription_tier: bulkTier, tier_locked: true };
+      const { error } = await supabase
+        .from('movies')
+        .update(changes)
+        .in('id', [...selected]);
+
+      if (error) throw error;
+      toast({
+        title: "Tiers updated",
+        description: bulkTier === 'rules'
+          ? `${selected.size} movies now follow the tier rules.`
+          : `${selected.size} movies are now ${bulkTier}.`,
+      });
+      setSelected(new Set());
+      await fetchMovies();
+    } catch (error) {
+      console.error('Error updating tiers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update tiers",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('movies').delete().eq('id', pendingDelete.id);
+      if (error) throw error;
+
+      toast({
+        title: "Movie deleted",
+        description: `${pendingDelete.title} has been removed from the catalog.`,
+      });
+      setSelected(prev => {
+        const next = new Set(prev);
+        next.delete(pendingDelete.id);
+        return next;
+      });
+      await fetchMovies();
+    } catch (error) {
+      console.error('Error deleting movie:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete movie",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      setPendingDelete(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!isCatalogEditor) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-2xl font-bold mb-2">Catalog editors only</h2>
+          <p className="text-muted-foreground mb-4">You need the admin or editor role to manage movies.</p>
+          <Link to="/">
+            <Button>Back to Movies</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/account')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Account
+          </Button>
+          <h1 className="text-3xl font-bold">Catalog</h1>
+        </div>
+
+        <Tabs defaultValue="movies">
+          <TabsList className="mb-6">
+            <TabsTrigger value="movies">Movies</TabsTrigger>
+            <TabsTrigger value="audit">Audit trail</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="movies">
+            <Card>
+              <CardHeader>
+                <CardTitle>Movies</CardTitle>
+                <CardDescription>
+                  {totalCount} {totalCount === 1 ? 'movie' : 'movies'}. Select rows to reassign their tier, or open one to edit it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col lg:flex-row gap-2 lg:items-center lg:justify-between">
+                  <form onSubmit={handleSearch} className="flex gap-2">
+                    <Input
+                      placeholder="Search by title"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
+                      className="sm:w-72"
+                    />
+                    <Button type="submit" variant="outline">
+                      <Search className="h-4 w-4" />
+                    </Button>
+                    <Select
+                      value={tierFilter}
+                      onValueChange={(value) => {
+                        setTierFilter(value);
+                        setPage(0);
+                      }}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All tiers</SelectItem>
+                        <SelectItem value="Basic">Basic</SelectItem>
+                        <SelectItem value="Premium">Premium</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </form>
+
+                  <div className="flex gap-2 items-center">
+                    <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+                    <Select value={bulkTier} onValueChange={(value) => setBulkTier(value as BulkTier)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="Basic">Set to Basic</SelectItem>
+                        <SelectItem value="Premium">Set to Premium</SelectItem>
+                        <SelectItem value="rules">Follow tier rules</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={handleBulkTier} disabled={saving || selected.size === 0}>
+                      Apply
+                    </Button>
+                  </div>
+                </div>
+
+                {loading ? (
+                  <p className="text-sm text-muted-foreground">Loading movies...</p>
+                ) : movies.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No movies match.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={allOnPageSelected}
+                            onCheckedChange={(checked) => toggleAllOnPage(checked === true)}
+                            aria-label="Select all on this page"
+                          />
+                        </TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Year</TableHead>
+                        <TableHead>Tier</TableHead>
+                        <TableHead>TMDB</TableHead>
+                        <TableHead className="w-24"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movies.map((movie) => (
+                        <TableRow key={movie.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(movie.id)}
+                              onCheckedChange={(checked) => toggleSelected(movie.id, checked === true)}
+                              aria-label={`Select ${movie.title}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            <Link to={`/admin/movies/${movie.id}`} className="hover:underline">
+                              {movie.title}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{movie.release_year ?? '—'}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Badge variant={movie.subscription_tier === 'Premium' ? 'default' : 'secondary'}>
+                                {movie.subscription_tier}
+                              </Badge>
+                              {movie.tier_locked && (
+                                <Lock className="h-3 w-3 text-muted-foreground" aria-label="Tier set by hand" />
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {movie.tmdb_id ?? '—'}
+                            {movie.sync_locked && <span className="ml-2 text-xs">(not synced)</span>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => navigate(`/admin/movies/${movie.id}`)}
+                                aria-label={`Edit ${movie.title}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPendingDelete(movie)}
+                                disabled={saving}
+                                aria-label={`Delete ${movie.title}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading}>
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit trail</CardTitle>
+                <CardDescription>The latest catalog changes made by staff. TMDB syncs aren't listed.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CatalogAuditLog />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the movie with its credits, video source, ratings, watchlist entries and viewing history. A later TMDB sync may import it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminMovies;
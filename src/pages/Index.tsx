@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Link } from 'react-router-dom';
+import { useProfile } from '@/contexts/ProfileContext';
+import { Link, useNavigate, useNavigationType, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -8,164 +9,281 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Search, User, LogOut, Crown, Film, Download, Filter, SlidersHorizontal, ArrowUpDown, X, Clock, TrendingUp, Star, Calendar } from 'lucide-react';
+import { Search, User, LogOut, Crown, Film, Download, Filter, SlidersHorizontal, ArrowUpDown, X, Clock, TrendingUp, Star, Calendar, Sparkles } from 'lucide-react';
 import Fuse from 'fuse.js';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import MovieCard from '@/components/MovieCard';
+import { trialDaysRemaining } from '@/lib/subscription';
+import { isWithinMaturityLimit, PARENTAL_LIMIT_RATINGS } from '@/lib/maturity';
+import { useParentalControls } from '@/hooks/use-parental-controls';
+import { movieSearchOptions, useMovies, useRecommendations } from '@/hooks/use-movies';
+import { useContinueWatching, useRemoveFromContinueWatching } from '@/hooks/use-viewing-history';
+import {
+  MovieSearchFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  readBrowsePosition,
+  saveBrowsePosition,
+  toSearchRpcArgs,
+} from '@/lib/movieSearch';
+import ContinueWatchingRow from '@/components/ContinueWatchingRow';
+import SavedFilterButtons from '@/components/SavedFilterButtons';
+import RecommendationRow from '@/components/RecommendationRow';
+import ProfileAvatar from '@/components/ProfileAvatar';
 
-interface Movie {
-  id: string;
+interface PersonMatch {
+  tmdb_person_id: number;
+  name: string;
+  profile_picture_url: string | null;
+  known_for: string;
+  movie_count: number;
+}
+
+interface SuggestionEntry {
   title: string;
-  description: string;
   genre: string[];
-  release_year: number;
-  duration_minutes: number;
-  rating: number;
-  poster_url: string;
-  subscription_tier: string;
-  created_at?: string;
+  maturity_level: number | null;
 }
 
 const Index = () => {
-  const { user, signOut, subscribed, subscriptionTier, checkSubscription } = useAuth();
+  const { user, signOut, subscribed, subscriptionTier, trialEndsAt, checkSubscription } = useAuth();
   const { toast } = useToast();
-  const [movies, setMovies] = useState<Movie[]>([]);
-  const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
-  const [userRatings, setUserRatings] = useState<Record<string, number>>({});
-  const [searchTerm, setSearchTerm] = useState('');
-  const [searchInput, setSearchInput] = useState('');
-  const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
-  const [yearRange, setYearRange] = useState({ min: 1970, max: new Date().getFullYear() });
-  const [ratingRange, setRatingRange] = useState({ min: 0, max: 10 });
-  const [durationRange, setDurationRange] = useState({ min: 0, max: 300 });
-  const [subscriptionFilter, setSubscriptionFilter] = useState('all');
-  const [sortBy, setSortBy] = useState('release_year');
-  const [sortOrder, setSortOrder] = useState('desc');
+  const { activeProfile, loading: profileLoading } = useProfile();
+  const { browseLimit } = useParentalControls();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigationType = useNavigationType();
+  const queryClient = useQueryClient();
+  // Filters come from the URL once on load; after that state drives the URL
+  const [initialState] = useState(() => filtersFromSearchParams(searchParams));
+  const [searchTerm, setSearchTerm] = useState(initialState.filters.searchTerm);
+  const [searchInput, setSearchInput] = useState(initialState.filters.searchTerm);
+  const [selectedGenres, setSelectedGenres] = useState<string[]>(initialState.filters.genres);
+  const [yearRange, setYearRange] = useState(initialState.filters.yearRange);
+  const [ratingRange, setRatingRange] = useState(initialState.filters.ratingRange);
+  const [durationRange, setDurationRange] = useState(initialState.filters.durationRange);
+  const [subscriptionFilter, setSubscriptionFilter] = useState(initialState.filters.subscriptionFilter);
+  const [maturityFilter, setMaturityFilter] = useState(initialState.filters.maturityFilter);
+  const [sortBy, setSortBy] = useState(initialState.filters.sortBy);
+  const [sortOrder, setSortOrder] = useState(initialState.filters.sortOrder);
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [currentPage, setCurrentPage] = useState(0);
+  // The filters the results are for; follows the inputs once they've settled
+  const [queryFilters, setQueryFilters] = useState<MovieSearchFilters>(initialState.filters);
+  const [allGenres, setAllGenres] = useState<string[]>([]);
+  const [suggestionPool, setSuggestionPool] = useState<SuggestionEntry[]>([]);
+  const [matchingPeople, setMatchingPeople] = useState<PersonMatch[]>([]);
+  // Browse position, saved on the way out so back-navigation can return to it
+  const scrollYRef = useRef(0);
+  const pagesLoadedRef = useRef(1);
+  const browseSearchRef = useRef(searchParams.toString());
+  const pendingScrollRef = useRef<number | null>(null);
   
   // Enhanced search state
   const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
-  const [quickFilter, setQuickFilter] = useState<string>('');
+  const [quickFilter, setQuickFilter] = useState<string>(initialState.quickFilter);
   const searchInputRef = useRef<HTMLInputElement>(null);
   
   const MOVIES_PER_PAGE = 15;
-  
-  // Extract all unique genres for filtering
-  const allGenres = useMemo(() => Array.from(new Set(movies.flatMap(movie => movie.genre))), [movies]);
-
-  const fetchMovies = async (page = 0, reset = false) => {
-    if (reset) {
-      setCurrentPage(0);
-      setMovies([]);
-      setHasMore(true);
-    }
-    
-    try {
-      const from = page * MOVIES_PER_PAGE;
-      const to = from + MOVIES_PER_PAGE - 1;
-      
-      const { data, error } = await supabase
-        .from('movies')
-        .select('*')
-        .order(sortBy, { ascending: sortOrder === 'asc' })
-        .range(from, to);
-      
-      if (error) throw error;
-      
-      const newMovies = data || [];
-      
-      if (reset || page === 0) {
-        setMovies(newMovies);
-      } else {
-        // Prevent duplicates when appending new movies
-        setMovies(prev => {
-          const existingIds = new Set(prev.map(movie => movie.id));
-          const uniqueNewMovies = newMovies.filter(movie => !existingIds.has(movie.id));
-          return [...prev, ...uniqueNewMovies];
-        });
-      }
-      
-      // Check if we have more movies to load
-      setHasMore(newMovies.length === MOVIES_PER_PAGE);
-      setCurrentPage(page);
-    } catch (error) {
-      console.error('Error fetching movies:', error);
-    }
-  };
+  const CONTINUE_WATCHING_LIMIT = 10;
+  const FILTER_DEBOUNCE_MS = 300;
+  const SUGGESTION_POOL_SIZE = 1000;
+  const RECENT_SEARCHES_LIMIT = 5;
+  const RECOMMENDATIONS_LIMIT = 12;
+  const PEOPLE_RESULTS_LIMIT = 8;
 
-  const loadMoreMovies = async () => {
-    if (loadingMore || !hasMore) return;
-    
-    setLoadingMore(true);
-    await fetchMovies(currentPage + 1);
-    setLoadingMore(false);
-  };
+  // Search, filters and sorting all run in the search_movies RPC so results cover the whole catalog
+  const moviesQuery = useMovies(queryFilters, MOVIES_PER_PAGE, !loading);
+  const movies = useMemo(() => {
+    // Pages can overlap if the catalog changes between fetches
+    const seen = new Set<string>();
+    return (moviesQuery.data?.pages ?? []).flat().filter(movie => {
+      if (seen.has(movie.id)) return false;
+      seen.add(movie.id);
+      return true;
+    });
+  }, [moviesQuery.data]);
+  const hasMore = !!moviesQuery.hasNextPage;
+  const loadingMore = moviesQuery.isFetchingNextPage;
+  const searching = moviesQuery.isFetching && !loadingMore;
 
-  const fetchUserData = async () => {
-    if (!user) return;
+  const continueWatching = useContinueWatching(CONTINUE_WATCHING_LIMIT);
+  const { data: recommendations } = useRecommendations(RECOMMENDATIONS_LIMIT);
+  const removeFromContinueWatching = useRemoveFromContinueWatching();
 
-    try {
-      // Fetch watchlist
-      const { data: watchlistData } = await supabase
-        .from('watchlist')
-        .select('movie_id')
-        .eq('user_id', user.id);
+  // Genres and titles for the filter list and typo-tolerant suggestions, independent of the loaded page
+  const fetchSearchMetadata = async () => {
+    const [genresRes, titlesRes] = await Promise.all([
+      supabase.from('genres').select('name').order('name'),
+      supabase
+        .from('movies')
+        .select('title, genre, maturity_level')
+        .order('rating', { ascending: false, nullsFirst: false })
+        .limit(SUGGESTION_POOL_SIZE)
+    ]);
 
-      if (watchlistData) {
-        setWatchlist(new Set(watchlistData.map(item => item.movie_id)));
-      }
+    if (genresRes.error) {
+      console.error('Error fetching genres:', genresRes.error);
+    } else {
+      setAllGenres((genresRes.data || []).map(genre => genre.name));
+    }
 
-      // Fetch user ratings
-      const { data: ratingsData } = await supabase
-        .from('user_ratings')
-        .select('movie_id, rating')
-        .eq('user_id', user.id);
-
-      if (ratingsData) {
-        const ratingsMap = ratingsData.reduce((acc, item) => {
-          acc[item.movie_id] = item.rating;
-          return acc;
-        }, {} as Record<string, number>);
-        setUserRatings(ratingsMap);
-      }
-    } catch (error) {
-      console.error('Error fetching user data:', error);
+    if (titlesRes.error) {
+      console.error('Error fetching search suggestions:', titlesRes.error);
+    } else {
+      setSuggestionPool(titlesRes.data || []);
     }
   };
 
+  // Reloads as many pages as were showing when the user left, so the saved scroll offset lands on the same card.
+  // The results query picks them up from the cache once loading finishes.
+  const fetchPages = (pages: number) =>
+    queryClient.prefetchInfiniteQuery({
+      ...movieSearchOptions(activeProfile?.id ?? null, queryFilters, MOVIES_PER_PAGE),
+      pages,
+    });
+
+  const loadMoreMovies = () => {
+    if (loadingMore || !hasMore) return;
+    moviesQuery.fetchNextPage();
+  };
 
-  // Initial load
+  // Initial load, once the profile (and so its parental limit) is known; returning via the back
+  // button restores the pages and scroll offset the user left at
   useEffect(() => {
+    if (profileLoading) return;
+
     const loadData = async () => {
       setLoading(true);
-      await fetchMovies(0, true);
-      if (user) {
-        await fetchUserData();
-        await checkSubscription();
-      }
+      const saved = navigationType === 'POP' ? readBrowsePosition(searchParams.toString()) : null;
+      await Promise.all([fetchPages(saved?.pages ?? 1), fetchSearchMetadata()]);
+      if (saved) pendingScrollRef.current = saved.scrollY;
       setLoading(false);
     };
 
     loadData();
+
+    return () => {
+      saveBrowsePosition({
+        search: browseSearchRef.current,
+        scrollY: scrollYRef.current,
+        pages: pagesLoadedRef.current,
+      });
+    };
+  }, [profileLoading]);
+
+  useEffect(() => {
+    pagesLoadedRef.current = Math.max(moviesQuery.data?.pages.length ?? 0, 1);
+  }, [moviesQuery.data]);
+
+  // Signed-in visitors pick who's watching before browsing
+  useEffect(() => {
+    if (user && !profileLoading && !activeProfile) {
+      navigate('/profiles');
+    }
+  }, [user, profileLoading, activeProfile, navigate]);
+
+  useEffect(() => {
+    fetchRecentSearches();
+    if (user) {
+      checkSubscription();
+    }
   }, [user]);
 
-  // Handle sort/filter changes
+  // Scroll only once the restored grid has rendered
+  useEffect(() => {
+    if (loading || pendingScrollRef.current === null) return;
+    window.scrollTo(0, pendingScrollRef.current);
+    scrollYRef.current = pendingScrollRef.current;
+    pendingScrollRef.current = null;
+  }, [loading]);
+
+  const currentQuery = useMemo(() => filtersToSearchParams({
+    searchTerm,
+    genres: selectedGenres,
+    yearRange,
+    ratingRange,
+    durationRange,
+    subscriptionFilter,
+    maturityFilter,
+    sortBy,
+    sortOrder,
+  }, quickFilter).toString(), [searchTerm, selectedGenres, yearRange, ratingRange, durationRange, subscriptionFilter, maturityFilter, sortBy, sortOrder, quickFilter]);
+
+  // Mirror the filters into the query string so the page can be refreshed or shared as-is
+  useEffect(() => {
+    browseSearchRef.current = currentQuery;
+    if (currentQuery !== searchParams.toString()) {
+      setSearchParams(new URLSearchParams(currentQuery), { replace: true });
+    }
+  }, [currentQuery]);
+
+  // Saved views store the same query string, so applying one replaces every filter at once
+  const applyFilterQuery = (query: string) => {
+    const { filters, quickFilter: savedQuickFilter } = filtersFromSearchParams(new URLSearchParams(query));
+    setSearchTerm(filters.searchTerm);
+    setSearchInput(filters.searchTerm);
+    setSelectedGenres(filters.genres);
+    setYearRange(filters.yearRange);
+    setRatingRange(filters.ratingRange);
+    setDurationRange(filters.durationRange);
+    setSubscriptionFilter(filters.subscriptionFilter);
+    setMaturityFilter(filters.maturityFilter);
+    setSortBy(filters.sortBy);
+    setSortOrder(filters.sortOrder);
+    setQuickFilter(savedQuickFilter);
+  };
+
+  // Handle search/filter/sort changes; debounced so typing in the range inputs doesn't fire a query per keystroke
+  useEffect(() => {
+    if (loading) return;
+    const timeout = setTimeout(() => setQueryFilters({
+      searchTerm,
+      genres: selectedGenres,
+      yearRange,
+      ratingRange,
+      durationRange,
+      subscriptionFilter,
+      maturityFilter,
+      sortBy,
+      sortOrder,
+    }), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, selectedGenres, yearRange, ratingRange, durationRange, subscriptionFilter, maturityFilter, sortBy, sortOrder]);
+
+  // Cast and crew matching the search, linked to their person pages above the movie results
   useEffect(() => {
-    if (!loading) {
-      fetchMovies(0, true);
+    const term = searchTerm.trim();
+    if (!term) {
+      setMatchingPeople([]);
+      return;
     }
-  }, [sortBy, sortOrder]);
+
+    let cancelled = false;
+    supabase
+      .rpc('search_people', { search_term: term, result_limit: PEOPLE_RESULTS_LIMIT })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error searching people:', error);
+          return;
+        }
+        setMatchingPeople(data || []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm]);
 
   // Infinite scroll functionality
   useEffect(() => {
     const handleScroll = () => {
+      scrollYRef.current = window.scrollY;
       if (
         window.innerHeight + document.documentElement.scrollTop
         >= document.documentElement.offsetHeight - 1000 // Load more when 1000px from bottom
@@ -176,7 +294,7 @@ const Index = () => {
 
     window.addEventListener('scroll', handleScroll);
     return () => window.removeEventListener('scroll', handleScroll);
-  }, [loadingMore, hasMore, currentPage]);
+  }, [loadingMore, hasMore]);
 
   const handleSearch = () => {
     setSearchTerm(searchInput);
@@ -190,33 +308,80 @@ const Index = () => {
     );
   };
 
-  // Initialize Fuse.js for fuzzy search
+  // Fuse.js only powers the suggestion dropdown; actual results come from the server
+  // Titles above the profile's parental limit never show up as suggestions
   const fuse = useMemo(() => {
-    return new Fuse(movies, {
-      keys: ['title', 'description', 'genre'],
+    const allowed = suggestionPool.filter(entry => isWithinMaturityLimit(entry.maturity_level, browseLimit));
+    return new Fuse(allowed, {
+      keys: ['title'],
       threshold: 0.3, // Lower = more strict, Higher = more fuzzy
       includeScore: true,
     });
-  }, [movies]);
+  }, [suggestionPool, browseLimit]);
 
-  // Load recent searches from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem('recentSearches');
-    if (saved) {
-      setRecentSearches(JSON.parse(saved));
+  // Signed-out searches stay in localStorage; signed in, they're kept on the profile so every device sees them
+  const fetchRecentSearches = async () => {
+    const localSearches: string[] = JSON.parse(localStorage.getItem('recentSearches') || '[]');
+    if (!user) {
+      setRecentSearches(localSearches);
+      return;
     }
-  }, []);
+
+    // Carry over anything searched before signing in, keeping its order
+    if (localSearches.length > 0) {
+      const now = Date.now();
+      const { error } = await supabase
+        .from('recent_searches')
+        .upsert(
+          localSearches.map((term, index) => ({
+            user_id: user.id,
+            term,
+            searched_at: new Date(now - index * 1000).toISOString(),
+          })),
+          { onConflict: 'profile_id,term' }
+        );
+      if (error) {
+        console.error('Error syncing recent searches:', error);
+      } else {
+        localStorage.removeItem('recentSearches');
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('recent_searches')
+      .select('term')
+      .eq('user_id', user.id)
+      .order('searched_at', { ascending: false })
+      .limit(RECENT_SEARCHES_LIMIT);
+
+    if (error) {
+      console.error('Error fetching recent searches:', error);
+      return;
+    }
+    setRecentSearches((data || []).map(item => item.term));
+  };
+
+  const saveRecentSearch = async (term: string) => {
+    const newRecentSearches = [term, ...recentSearches.filter(s => s !== term)].slice(0, RECENT_SEARCHES_LIMIT);
+    setRecentSearches(newRecentSearches);
+
+    if (!user) {
+      localStorage.setItem('recentSearches', JSON.stringify(newRecentSearches));
+      return;
+    }
+
+    const { error } = await supabase
+      .from('recent_searches')
+      .upsert({ user_id: user.id, term, searched_at: new Date().toISOString() }, { onConflict: 'profile_id,term' });
+    if (error) console.error('Error saving recent search:', error);
+  };
 
   // Generate search suggestions
   useEffect(() => {
     if (searchInput.length > 1) {
-      const suggestions = movies
-        .filter(movie => 
-          movie.title.toLowerCase().includes(searchInput.toLowerCase()) ||
-          movie.genre.some(g => g.toLowerCase().includes(searchInput.toLowerCase()))
-        )
+      const suggestions = fuse.search(searchInput)
         .slice(0, 5)
-        .map(movie => movie.title);
+        .map(result => result.item.title);
       
       // Add genre suggestions
       const genreSuggestions = allGenres
@@ -229,17 +394,13 @@ const Index = () => {
       setSearchSuggestions([]);
       setShowSuggestions(false);
     }
-  }, [searchInput, movies, allGenres]);
+  }, [searchInput, fuse, allGenres]);
 
   // Enhanced search function with fuzzy search and recent searches
   const handleEnhancedSearch = (term: string = searchInput) => {
     if (term.trim()) {
       setSearchTerm(term);
-      
-      // Add to recent searches
-      const newRecentSearches = [term, ...recentSearches.filter(s => s !== term)].slice(0, 5);
-      setRecentSearches(newRecentSearches);
-      localStorage.setItem('recentSearches', JSON.stringify(newRecentSearches));
+      saveRecentSearch(term);
     }
     setShowSuggestions(false);
   };
@@ -252,7 +413,8 @@ const Index = () => {
     switch (filter) {
       case 'new-releases':
         setYearRange({ min: currentYear - 1, max: currentYear });
-        setSortBy('created_at');
+        // By when the film came out, not when it was added to the catalog
+        setSortBy('release_date');
         setSortOrder('desc');
         break;
       case 'top-rated':
@@ -261,9 +423,9 @@ const Index = () => {
         setSortOrder('desc');
         break;
       case 'trending':
-        setSortBy('rating');
+        // Scored from recent views, watchlist adds and ratings; refreshed every 15 minutes
+        setSortBy('trending');
         setSortOrder('desc');
-        setYearRange({ min: currentYear - 3, max: currentYear });
         break;
       case 'classics':
         setYearRange({ min: 1970, max: 2000 });
@@ -300,6 +462,9 @@ const Index = () => {
       case 'subscription':
         setSubscriptionFilter('all');
         break;
+      case 'maturity':
+        setMaturityFilter('all');
+        break;
       case 'year':
         setYearRange({ min: 1970, max: new Date().getFullYear() });
         break;
@@ -312,54 +477,6 @@ const Index = () => {
     }
   };
 
-  // Enhanced filtering with fuzzy search
-  const filteredAndSortedMovies = useMemo(() => {
-    let filtered = movies;
-    
-    // Apply fuzzy search if search term exists
-    if (searchTerm.trim()) {
-      const fuseResults = fuse.search(searchTerm);
-      filtered = fuseResults.map(result => result.item);
-    }
-    
-    // Apply other filters
-    filtered = filtered.filter(movie => {
-      const matchesGenre = selectedGenres.length === 0 || selectedGenres.some(genre => movie.genre.includes(genre));
-      const matchesYear = movie.release_year >= yearRange.min && movie.release_year <= yearRange.max;
-      const matchesRating = movie.rating >= ratingRange.min && movie.rating <= ratingRange.max;
-      const matchesDuration = movie.duration_minutes >= durationRange.min && movie.duration_minutes <= durationRange.max;
-      const matchesSubscription = subscriptionFilter === 'all' || movie.subscription_tier === subscriptionFilter;
-      
-      return matchesGenre && matchesYear && matchesRating && matchesDuration && matchesSubscription;
-    });
-
-    // Apply sorting
-    return filtered.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortBy) {
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case 'release_year':
-          comparison = a.release_year - b.release_year;
-          break;
-        case 'rating':
-          comparison = a.rating - b.rating;
-          break;
-        case 'duration_minutes':
-          comparison = a.duration_minutes - b.duration_minutes;
-          break;
-        case 'created_at':
-        default:
-          comparison = new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime();
-          break;
-      }
-      
-      return sortOrder === 'desc' ? -comparison : comparison;
-    });
-  }, [movies, searchTerm, selectedGenres, yearRange, ratingRange, durationRange, subscriptionFilter, sortBy, sortOrder, fuse]);
-
   // Active filters for display
   const activeFilters = useMemo(() => {
     const filters = [];
@@ -376,6 +493,10 @@ const Index = () => {
       filters.push({ type: 'subscription', label: `${subscriptionFilter} Tier`, value: subscriptionFilter });
     }
     
+    if (maturityFilter !== 'all') {
+      filters.push({ type: 'maturity', label: `Up to ${maturityFilter}`, value: maturityFilter });
+    }
+    
     if (yearRange.min !== 1970 || yearRange.max !== new Date().getFullYear()) {
       filters.push({ type: 'year', label: `${yearRange.min}-${yearRange.max}`, value: 'year' });
     }
@@ -395,7 +516,7 @@ const Index = () => {
     }
     
     return filters;
-  }, [searchTerm, selectedGenres, subscriptionFilter, yearRange, ratingRange, quickFilter]);
+  }, [searchTerm, selectedGenres, subscriptionFilter, maturityFilter, yearRange, ratingRange, quickFilter]);
 
 
   if (loading) {
@@ -425,11 +546,25 @@ const Index = () => {
                   {subscriptionTier}
                 </Badge>
               )}
+              {trialEndsAt && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Trial · {trialDaysRemaining(trialEndsAt)}d left
+                </Badge>
+              )}
             </div>
             
             <div className="flex items-center gap-4">
               {user ? (
                 <div className="flex items-center gap-2">
+                  {activeProfile && (
+                    <Link to="/profiles" title="Switch profile">
+                      <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                        <ProfileAvatar profile={activeProfile} className="h-6 w-6 text-xs" />
+                        {activeProfile.display_name}
+                      </Button>
+                    </Link>
+                  )}
                   <Link to="/watchlist">
                     <Button variant="ghost" size="sm">My Watchlist</Button>
                   </Link>
@@ -478,6 +613,30 @@ const Index = () => {
           )}
         </div>
 
+        {/* Continue Watching */}
+        {user && (
+          <ContinueWatchingRow
+            entries={continueWatching}
+            onRemove={(movieId) => removeFromContinueWatching.mutate(movieId)}
+          />
+        )}
+
+        {/* Recommendations */}
+        {user && recommendations?.becauseYouWatched && (
+          <RecommendationRow
+            title={`Because you watched ${recommendations.becauseYouWatched.sourceTitle}`}
+            icon={Film}
+            movies={recommendations.becauseYouWatched.movies}
+          />
+        )}
+        {user && (
+          <RecommendationRow
+            title="Recommended for you"
+            icon={Sparkles}
+            movies={recommendations?.recommended ?? []}
+          />
+        )}
+
         {/* Enhanced Search and Filter */}
         <div className="space-y-4 mb-8">
           {/* Quick Filter Buttons */}
@@ -518,6 +677,7 @@ const Index = () => {
               <Film className="h-4 w-4" />
               Classics
             </Button>
+            <SavedFilterButtons currentQuery={currentQuery} onApply={applyFilterQuery} />
           </div>
 
           {/* Primary Search and Sort */}
@@ -604,8 +764,10 @@ const Index = () => {
                   <SelectItem value="created_at">Newest</SelectItem>
                   <SelectItem value="title">Title</SelectItem>
                   <SelectItem value="release_year">Year</SelectItem>
+                  <SelectItem value="release_date">Release date</SelectItem>
                   <SelectItem value="rating">Rating</SelectItem>
                   <SelectItem value="duration_minutes">Duration</SelectItem>
+                  <SelectItem value="trending">Trending</SelectItem>
                 </SelectContent>
               </Select>
               
@@ -697,6 +859,22 @@ const Index = () => {
                   </Select>
                 </div>
                 
+                {/* Maturity Rating */}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Maturity</label>
+                  <Select value={maturityFilter} onValueChange={setMaturityFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any Rating" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any Rating</SelectItem>
+                      {PARENTAL_LIMIT_RATINGS.map(rating => (
+                        <SelectItem key={rating} value={rating}>Up to {rating}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 {/* Year Range */}
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Release Year</label>
@@ -758,6 +936,7 @@ const Index = () => {
                   onClick={() => {
                     setSelectedGenres([]);
                     setSubscriptionFilter('all');
+                    setMaturityFilter('all');
                     setYearRange({ min: 1970, max: new Date().getFullYear() });
                     setRatingRange({ min: 0, max: 10 });
                     setDurationRange({ min: 0, max: 300 });
@@ -794,6 +973,7 @@ const Index = () => {
                 onClick={() => {
                   setSelectedGenres([]);
                   setSubscriptionFilter('all');
+                  setMaturityFilter('all');
                   setYearRange({ min: 1970, max: new Date().getFullYear() });
                   setRatingRange({ min: 0, max: 10 });
                   setDurationRange({ min: 0, max: 300 });
@@ -811,18 +991,46 @@ const Index = () => {
           )}
         </div>
 
+        {/* People matching the search */}
+        {matchingPeople.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">People</h3>
+            <div className="flex flex-wrap gap-2">
+              {matchingPeople.map((person) => (
+                <Link
+                  key={person.tmdb_person_id}
+                  to={`/person/${person.tmdb_person_id}`}
+                  className="flex items-center gap-2 rounded-full border bg-background pr-3 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="h-8 w-8 rounded-full bg-muted overflow-hidden flex-shrink-0">
+                    {person.profile_picture_url ? (
+                      <img src={person.profile_picture_url} alt={person.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <div className="h-full w-full flex items-center justify-center text-xs text-muted-foreground">
+                        {person.name.charAt(0)}
+                      </div>
+                    )}
+                  </div>
+                  <span className="text-sm font-medium">{person.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {person.known_for} · {person.movie_count} {person.movie_count === 1 ? 'movie' : 'movies'}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Movies Grid */}
-        {filteredAndSortedMovies.length > 0 ? (
+        {searching && movies.length === 0 ? (
+          <div className="flex justify-center items-center py-12">
+            <Film className="h-6 w-6 animate-spin mr-2 text-primary" />
+            <span className="text-muted-foreground">Searching...</span>
+          </div>
+        ) : movies.length > 0 ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {filteredAndSortedMovies.map((movie) => (
-              <MovieCard
-                key={movie.id}
-                movie={movie}
-                isInWatchlist={watchlist.has(movie.id)}
-                userRating={userRatings[movie.id]}
-                onWatchlistUpdate={fetchUserData}
-                onRatingUpdate={fetchUserData}
-              />
+            {movies.map((movie) => (
+              <MovieCard key={movie.id} movie={movie} />
             ))}
           </div>
         ) : (
@@ -15,29 +15,27 @@ import {
   Crown,
   Heart,
   Share2,
-  Download
+  Download,
+  Sparkles
 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-
-interface Movie {
-  id: string;
-  title: string;
-  description: string;
-  genre: string[];
-  release_year: number;
-  duration_minutes: number;
-  rating: number;
-  poster_url: string;
-  subscription_tier: string;
-  trailer_url?: string;
-  video_url?: string;
-  created_at?: string;
-}
+import { useMovie, useSimilarMovies, useViewerCanWatch } from '@/hooks/use-movies';
+import { useWatchlist } from '@/hooks/use-watchlist';
+import { useRateMovie, useRatings } from '@/hooks/use-ratings';
+import { queryKeys } from '@/lib/queryKeys';
+import { hasTierAccess } from '@/lib/subscription';
+import { formatRuntime, languageName, countryName, imdbUrl } from '@/lib/movieMetadata';
+import RecommendationRow from '@/components/RecommendationRow';
+import ParentalPinPrompt from '@/components/ParentalPinPrompt';
+import SaveToListMenu from '@/components/SaveToListMenu';
 
 interface CastMember {
   id: string;
+  tmdb_person_id: number;
   name: string;
   character_name: string;
   profile_picture_url: string;
@@ -46,6 +44,7 @@ interface CastMember {
 
 interface CrewMember {
   id: string;
+  tmdb_person_id: number;
   name: string;
   job: string;
   department: string;
@@ -58,73 +57,73 @@ const MovieDetails = () => {
   const { user, subscribed, subscriptionTier } = useAuth();
   const { toast } = useToast();
   
-  const [movie, setMovie] = useState<Movie | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [isInWatchlist, setIsInWatchlist] = useState(false);
-  const [userRating, setUserRating] = useState<number | null>(null);
-  const [actionLoading, setActionLoading] = useState(false);
+  const { activeProfile } = useProfile();
+  const queryClient = useQueryClient();
+  const { data: movie, isLoading: movieLoading, isError: movieError } = useMovie(id);
+  // Titles above the profile's parental limit stay locked until the PIN is entered
+  const { data: canWatch, isLoading: accessLoading } = useViewerCanWatch(id);
+  const { data: similarMovies = [] } = useSimilarMovies(id);
+  const { movieIds: watchlistIds } = useWatchlist();
+  const { ratings } = useRatings();
+  const ratingMutation = useRateMovie();
   const [cast, setCast] = useState<CastMember[]>([]);
   const [crew, setCrew] = useState<CrewMember[]>([]);
   const [castLoading, setCastLoading] = useState(true);
 
+  const loading = movieLoading || accessLoading;
+  const restricted = canWatch === false;
+  const isInWatchlist = !!id && watchlistIds.has(id);
+  const userRating = id ? ratings[id] ?? null : null;
+
   useEffect(() => {
     if (id) {
-      fetchMovieDetails();
       fetchCastAndCrew();
-      if (user) {
-        fetchUserData();
-      }
     }
-  }, [id, user]);
+  }, [id]);
 
-  const fetchMovieDetails = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('movies')
-        .select('*')
-        .eq('id', id)
-        .single();
-      
-      if (error) throw error;
-      setMovie(data);
-    } catch (error) {
-      console.error('Error fetching movie:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load movie details",
-        variant: "destructive",
-      });
-      navigate('/');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!movieError) return;
+    toast({
+      title: "Error",
+      description: "Failed to load movie details",
+      variant: "destructive",
+    });
+    navigate('/');
+  }, [movieError, navigate, toast]);
 
   const fetchCastAndCrew = async () => {
     if (!id) return;
     
     setCastLoading(true);
     try {
-      // Fetch cast members
+      // Fetch cast members; names and photos come from people
       const { data: castData, error: castError } = await supabase
         .from('cast_members')
-        .select('*')
+        .select('id, tmdb_person_id, character_name, order_position, people (name, profile_picture_url)')
         .eq('movie_id', id)
         .order('order_position', { ascending: true });
       
       if (!castError && castData) {
-        setCast(castData);
+        setCast(castData.map(({ people, ...member }) => ({
+          ...member,
+          name: people?.name ?? '',
+          profile_picture_url: people?.profile_picture_url ?? '',
+        })));
       }
 
       // Fetch crew members
       const { data: crewData, error: crewError } = await supabase
         .from('crew_members')
-        .select('*')
+        .select('id, tmdb_person_id, job, department, people (name, profile_picture_url)')
         .eq('movie_id', id)
         .order('job', { ascending: true });
       
       if (!crewError && crewData) {
-        setCrew(crewData);
+        setCrew(crewData.map(({ people, ...member }) => ({
+          ...member,
+          name: people?.name ?? '',
+          profile_picture_url: people?.profile_picture_url ?? '',
+        })));
       }
     } catch (error) {
       console.error('Error fetching cast and crew:', error);
@@ -133,109 +132,11 @@ const MovieDetails = () => {
     }
   };
 
-  const fetchUserData = async () => {
-    if (!user || !id) return;
-
-    try {
-      // Check watchlist
-      const { data: watchlistData } = await supabase
-        .from('watchlist')
-        .select('id')
-        .eq('user_id', user.id)
-        .eq('movie_id', id)
-        .single();
-      
-      setIsInWatchlist(!!watchlistData);
-
-      // Check user rating
-      const { data: ratingData } = await supabase
-        .from('user_ratings')
-        .select('rating')
-        .eq('user_id', user.id)
-        .eq('movie_id', id)
-        .single();
-      
-      setUserRating(ratingData?.rating || null);
-    } catch (error) {
-      // Ignore errors for missing data
-    }
-  };
-
-  const hasAccess = () => {
-    if (!subscribed) return false;
-    if (movie?.subscription_tier === 'Basic') return true;
-    return subscriptionTier === 'Premium';
-  };
-
-  const toggleWatchlist = async () => {
-    if (!user || !movie) return;
-    
-    setActionLoading(true);
-    try {
-      if (isInWatchlist) {
-        const { error } = await supabase
-          .from('watchlist')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('movie_id', movie.id);
-        
-        if (error) throw error;
-        setIsInWatchlist(false);
-        
-        toast({
-          title: "Removed from watchlist",
-          description: `${movie.title} removed from your watchlist`,
-        });
-      } else {
-        const { error } = await supabase
-          .from('watchlist')
-          .insert({ user_id: user.id, movie_id: movie.id });
-        
-        if (error) throw error;
-        setIsInWatchlist(true);
-        
-        toast({
-          title: "Added to watchlist",
-          description: `${movie.title} added to your watchlist`,
-        });
-      }
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setActionLoading(false);
-    }
-  };
+  const hasAccess = () => !!movie && hasTierAccess(subscribed, subscriptionTier, movie.subscription_tier);
 
-  const rateMovie = async (rating: number) => {
+  const rateMovie = (rating: number) => {
     if (!user || !movie) return;
-    
-    try {
-      const { error } = await supabase
-        .from('user_ratings')
-        .upsert({
-          user_id: user.id,
-          movie_id: movie.id,
-          rating
-        });
-      
-      if (error) throw error;
-      setUserRating(rating);
-      
-      toast({
-        title: "Rating saved",
-        description: `You rated ${movie.title} ${rating} stars`,
-      });
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
+    ratingMutation.mutate({ movie, rating });
   };
 
   const handlePlay = () => {
@@ -250,23 +151,7 @@ const MovieDetails = () => {
       return;
     }
     
-    // Add to viewing history
-    if (user) {
-      supabase
-        .from('viewing_history')
-        .insert({
-          user_id: user.id,
-          movie_id: movie.id,
-          progress_seconds: 0,
-          completed: false
-        })
-        .then(() => {
-          toast({
-            title: "Now playing",
-            description: `Playing ${movie.title}`,
-          });
-        });
-    }
+    navigate(`/watch/${movie.id}`);
   };
 
   const handleShare = () => {
@@ -309,8 +194,30 @@ const MovieDetails = () => {
     );
   }
 
+  if (restricted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <ParentalPinPrompt
+          movieId={movie.id}
+          title={movie.title}
+          certification={movie.certification}
+          onUnlocked={() => queryClient.setQueryData<boolean>(queryKeys.movies.canWatch(activeProfile?.id ?? null, movie.id), true)}
+          onCancel={() => navigate(-1)}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
+    <div className="relative min-h-screen bg-gradient-to-br from-background via-background to-muted">
+      {/* Backdrop */}
+      {movie.backdrop_url && (
+        <div className="absolute inset-x-0 top-0 h-96 overflow-hidden" aria-hidden="true">
+          <img src={movie.backdrop_url} alt="" className="h-full w-full object-cover opacity-30" />
+          <div className="absolute inset-0 bg-gradient-to-b from-transparent to-background" />
+        </div>
+      )}
+
       {/* Header */}
       <header className="border-b bg-background/80 backdrop-blur-sm sticky top-0 z-50">
         <div className="container mx-auto px-4 py-4">
@@ -331,7 +238,7 @@ const MovieDetails = () => {
         </div>
       </header>
 
-      <div className="container mx-auto px-4 py-8">
+      <div className="relative container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Movie Poster */}
           <div className="lg:col-span-1">
@@ -355,15 +262,23 @@ const MovieDetails = () => {
                 <div className="flex items-start justify-between">
                   <div>
                     <h1 className="text-3xl font-bold mb-2">{movie.title}</h1>
+                    {movie.tagline && (
+                      <p className="italic text-muted-foreground mb-2">{movie.tagline}</p>
+                    )}
                     <div className="flex items-center gap-4 text-muted-foreground mb-4">
+                      {movie.certification && (
+                        <Badge variant="outline">{movie.certification}</Badge>
+                      )}
                       <div className="flex items-center gap-1">
                         <Calendar className="h-4 w-4" />
                         {movie.release_year}
                       </div>
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-4 w-4" />
-                        {Math.floor(movie.duration_minutes / 60)}h {movie.duration_minutes % 60}m
-                      </div>
+                      {movie.duration_minutes > 0 && (
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {formatRuntime(movie.duration_minutes)}
+                        </div>
+                      )}
                       <div className="flex items-center gap-1">
                         <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                         {movie.rating}/10
@@ -391,24 +306,21 @@ const MovieDetails = () => {
                   </Button>
                   
                   {user && (
-                    <Button 
-                      variant="outline" 
-                      size="lg"
-                      onClick={toggleWatchlist}
-                      disabled={actionLoading}
-                    >
-                      {isInWatchlist ? (
-                        <>
-                          <Check className="h-5 w-5 mr-2" />
-                          In Watchlist
-                        </>
-                      ) : (
-                        <>
-                          <Plus className="h-5 w-5 mr-2" />
-                          Add to Watchlist
-                        </>
-                      )}
-                    </Button>
+                    <SaveToListMenu movie={movie}>
+                      <Button variant="outline" size="lg">
+                        {isInWatchlist ? (
+                          <>
+                            <Check className="h-5 w-5 mr-2" />
+                            Saved
+                          </>
+                        ) : (
+                          <>
+                            <Plus className="h-5 w-5 mr-2" />
+                            Save to List
+                          </>
+                        )}
+                      </Button>
+                    </SaveToListMenu>
                   )}
                   
                   <Button variant="outline" size="lg" onClick={handleShare}>
@@ -482,8 +394,26 @@ const MovieDetails = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Duration:</span>
-                      <span>{Math.floor(movie.duration_minutes / 60)}h {movie.duration_minutes % 60}m</span>
+                      <span>{formatRuntime(movie.duration_minutes) ?? 'Unknown'}</span>
                     </div>
+                    {movie.certification && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Certification:</span>
+                        <span>{movie.certification}</span>
+                      </div>
+                    )}
+                    {movie.original_language && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Language:</span>
+                        <span>{languageName(movie.original_language)}</span>
+                      </div>
+                    )}
+                    {movie.production_countries && movie.production_countries.length > 0 && (
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">Countries:</span>
+                        <span className="text-right">{movie.production_countries.map(countryName).join(', ')}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Rating:</span>
                       <span>{movie.rating}/10</span>
@@ -492,6 +422,19 @@ const MovieDetails = () => {
                       <span className="text-muted-foreground">Subscription:</span>
                       <span>{movie.subscription_tier}</span>
                     </div>
+                    {movie.imdb_id && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">IMDb:</span>
+                        <a
+                          href={imdbUrl(movie.imdb_id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                        >
+                          {movie.imdb_id}
+                        </a>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -511,7 +454,11 @@ const MovieDetails = () => {
                           <h5 className="font-medium text-sm mb-2">Main Cast</h5>
                           <div className="grid grid-cols-2 gap-2 text-sm">
                             {cast.slice(0, 6).map((member) => (
-                              <div key={member.id} className="flex items-center gap-2">
+                              <Link
+                                key={member.id}
+                                to={`/person/${member.tmdb_person_id}`}
+                                className="flex items-center gap-2 rounded-md hover:bg-muted/50 transition-colors"
+                              >
                                 <div className="h-8 w-8 rounded-full bg-muted flex-shrink-0 overflow-hidden">
                                   {member.profile_picture_url ? (
                                     <img
@@ -536,7 +483,7 @@ const MovieDetails = () => {
                                     {member.character_name}
                                   </p>
                                 </div>
-                              </div>
+                              </Link>
                             ))}
                           </div>
                         </div>
@@ -550,7 +497,9 @@ const MovieDetails = () => {
                             {crew.slice(0, 4).map((member) => (
                               <div key={member.id} className="flex justify-between">
                                 <span className="text-muted-foreground">{member.job}:</span>
-                                <span className="font-medium">{member.name}</span>
+                                <Link to={`/person/${member.tmdb_person_id}`} className="font-medium hover:text-primary transition-colors">
+                                  {member.name}
+                                </Link>
                               </div>
                             ))}
                           </div>
@@ -569,6 +518,11 @@ const MovieDetails = () => {
             </div>
           </div>
         </div>
+
+        {/* More Like This */}
+        <div className="mt-12">
+          <RecommendationRow title="More like this" icon={Sparkles} movies={similarMovies} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ArrowUpDown, Film } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import MovieCard from '@/components/MovieCard';
+import { useParentalControls } from '@/hooks/use-parental-controls';
+import { isWithinMaturityLimit } from '@/lib/maturity';
+
+interface Movie {
+  id: string;
+  title: string;
+  description: string;
+  genre: string[];
+  release_year: number;
+  duration_minutes: number;
+  rating: number;
+  poster_url: string;
+  subscription_tier: string;
+  maturity_level: number | null;
+}
+
+interface PersonSummary {
+  name: string;
+  profile_picture_url: string | null;
+}
+
+// One entry per movie, however many roles the person had in it
+interface FilmographyEntry {
+  movie: Movie;
+  characters: string[];
+  jobs: string[];
+}
+
+type CreditFilter = 'all' | 'acting' | 'crew';
+
+const Person = () => {
+  const { tmdbPersonId } = useParams<{ tmdbPersonId: string }>();
+  const navigate = useNavigate();
+  const { browseLimit } = useParentalControls();
+  const [person, setPerson] = useState<PersonSummary | null>(null);
+  const [filmography, setFilmography] = useState<FilmographyEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creditFilter, setCreditFilter] = useState<CreditFilter>('all');
+  const [sortBy, setSortBy] = useState<'release_year' | 'rating'>('release_year');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  useEffect(() => {
+    fetchFilmography();
+  }, [tmdbPersonId]);
+
+  const fetchFilmography = async () => {
+    const personId = Number(tmdbPersonId);
+    if (!Number.isInteger(personId)) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [personRes, castRes, crewRes] = await Promise.all([
+        supabase
+          .from('people')
+          .select('name, profile_picture_url')
+          .eq('tmdb_person_id', personId)
+          .maybeSingle(),
+        supabase
+          .from('cast_members')
+          .select('character_name, movies (*)')
+          .eq('tmdb_person_id', personId),
+        supabase
+          .from('crew_members')
+          .select('job, movies (*)')
+          .eq('tmdb_person_id', personId),
+      ]);
+
+      if (personRes.error) throw personRes.error;
+      if (castRes.error) throw castRes.error;
+      if (crewRes.error) throw crewRes.error;
+
+      const castCredits = castRes.data || [];
+      const crewCredits = crewRes.data || [];
+      const entries = new Map<string, FilmographyEntry>();
+      const entryFor = (movie: Movie) => {
+        if (!entries.has(movie.id)) entries.set(movie.id, { movie, characters: [], jobs: [] });
+        return entries.get(movie.id)!;
+      };
+
+      for (const credit of castCredits) {
+        if (!credit.movies) continue;
+        const entry = entryFor(credit.movies as Movie);
+        if (credit.character_name) entry.characters.push(credit.character_name);
+      }
+      for (const credit of crewCredits) {
+        if (!credit.movies) continue;
+        entryFor(credit.movies as Movie).jobs.push(credit.job);
+      }
+
+      setPerson(personRes.data);
+      setFilmography([...entries.values()]);
+    } catch (error) {
+      console.error('Error fetching filmography:', error);
+      setPerson(null);
+      setFilmography([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Credits on titles above the profile's parental limit are left out entirely
+  const allowedFilmography = useMemo(
+    () => filmography.filter(entry => isWithinMaturityLimit(entry.movie.maturity_level, browseLimit)),
+    [filmography, browseLimit]
+  );
+
+  const actingCount = allowedFilmography.filter(entry => entry.characters.length > 0 || entry.jobs.length === 0).length;
+  const crewCount = allowedFilmography.filter(entry => entry.jobs.length > 0).length;
+
+  const visibleFilmography = useMemo(() => {
+    const filtered = allowedFilmography.filter(entry => {
+      if (creditFilter === 'acting') return entry.characters.length > 0 || entry.jobs.length === 0;
+      if (creditFilter === 'crew') return entry.jobs.length > 0;
+      return true;
+    });
+
+    // Titles missing the sort field go last either way
+    return filtered.sort((a, b) => {
+      const aValue = a.movie[sortBy];
+      const bValue = b.movie[sortBy];
+      if (aValue == null) return bValue == null ? 0 : 1;
+      if (bValue == null) return -1;
+      return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
+    });
+  }, [allowedFilmography, creditFilter, sortBy, sortOrder]);
+
+  const describeCredit = (entry: FilmographyEntry) => {
+    const parts = [];
+    if (entry.characters.length > 0) parts.push(`as ${entry.characters.join(' / ')}`);
+    if (entry.jobs.length > 0) parts.push([...new Set(entry.jobs)].join(', '));
+    return parts.join(' · ');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="h-12 w-12 animate-spin mx-auto mb-4 border-4 border-primary border-t-transparent rounded-full"></div>
+          <p className="text-muted-foreground">Loading filmography...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
+      {/* Header */}
+      <header className="border-b bg-background/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate(-1)}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
+              StreamFlix
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        {!person ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Film className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">Person not found</h3>
+              <p className="text-muted-foreground">
+                Nobody with this ID appears in any movie in our catalog
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row items-center sm:items-end gap-6 mb-8">
+              <div className="h-40 w-32 rounded-lg bg-muted flex-shrink-0 overflow-hidden">
+                {person.profile_picture_url ? (
+                  <img
+                    src={person.profile_picture_url}
+                    alt={person.name}
+                    className="h-full w-full object-cover"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = '/placeholder.svg';
+                    }}
+                  />
+                ) : (
+                  <div className="h-full w-full flex items-center justify-center">
+                    <span className="text-4xl text-muted-foreground">{person.name.charAt(0)}</span>
+                  </div>
+                )}
+              </div>
+              <div className="text-center sm:text-left">
+                <h2 className="text-3xl font-bold mb-2">{person.name}</h2>
+                <div className="flex flex-wrap gap-2 justify-center sm:justify-start">
+                  {actingCount > 0 && <Badge variant="secondary">{actingCount} as cast</Badge>}
+                  {crewCount > 0 && <Badge variant="secondary">{crewCount} as crew</Badge>}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <div className="flex gap-2">
+                {(['all', 'acting', 'crew'] as CreditFilter[]).map((filter) => (
+                  <Button
+                    key={filter}
+                    variant={creditFilter === filter ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCreditFilter(filter)}
+                    disabled={filter === 'acting' ? actingCount === 0 : filter === 'crew' ? crewCount === 0 : false}
+                    className="capitalize"
+                  >
+                    {filter}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Select value={sortBy} onValueChange={(value) => setSortBy(value as 'release_year' | 'rating')}>
+                  <SelectTrigger className="w-40">
+                    <ArrowUpDown className="h-4 w-4 mr-2" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="release_year">Year</SelectItem>
+                    <SelectItem value="rating">Rating</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                  className="px-3"
+                >
+                  {sortOrder === 'asc' ? '↑' : '↓'}
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+              {visibleFilmography.map((entry) => (
+                <div key={entry.movie.id}>
+                  <MovieCard movie={entry.movie} />
+                  <p className="text-xs text-muted-foreground mt-2 line-clamp-2">{describeCredit(entry)}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Person;
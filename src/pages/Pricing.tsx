@@ -1,12 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Check } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { formatPrice, detectCurrency, annualSavingsPercent, SUPPORTED_CURRENCIES, Currency } from '@/lib/pricing';
+
+interface Plan {
+  id: string;
+  tier: string;
+  name: string;
+  description: string | null;
+  stripe_price_id: string;
+  billing_interval: string;
+  currency: string;
+  amount: number;
+  features: string[];
+  popular: boolean;
+  trial_period_days: number;
+}
 
 const Pricing = () => {
   const { user, subscribed, subscriptionTier } = useAuth();
@@ -14,44 +31,51 @@ const Pricing = () => {
   const { toast } = useToast();
   const [loading, setLoading] = useState<string | null>(null);
 
-  const plans = [
-    {
-      name: 'Basic',
-      price: '£10',
-      description: 'Perfect for casual viewers',
-      features: [
-        'Access to Basic movie library',
-        'HD streaming quality',
-        'Watch on 1 device',
-        'Standard support'
-      ]
-    },
-    {
-      name: 'Premium',
-      price: '£15',
-      description: 'Best for movie enthusiasts',
-      features: [
-        'Access to ALL movies including Premium content',
-        '4K Ultra HD streaming',
-        'Watch on up to 4 devices',
-        'Priority support',
-        'Early access to new releases'
-      ],
-      popular: true
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [plansLoading, setPlansLoading] = useState(true);
+  const [billingInterval, setBillingInterval] = useState<'month' | 'year'>('month');
+  const [currency, setCurrency] = useState<Currency>(() => {
+    const saved = localStorage.getItem('preferredCurrency');
+    return SUPPORTED_CURRENCIES.includes(saved as Currency) ? (saved as Currency) : detectCurrency();
+  });
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('plans')
+        .select('id, tier, name, description, stripe_price_id, billing_interval, currency, amount, features, popular, trial_period_days')
+        .eq('active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setPlans(data || []);
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load subscription plans",
+        variant: "destructive",
+      });
+    } finally {
+      setPlansLoading(false);
     }
-  ];
+  };
 
-  const handleSubscribe = async (tier: string) => {
+  const handleSubscribe = async (plan: Plan) => {
     if (!user) {
       navigate('/auth');
       return;
     }
 
-    setLoading(tier);
+    setLoading(plan.stripe_price_id);
     
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout', {
-        body: { tier }
+        body: { priceId: plan.stripe_price_id }
       });
 
       if (error) {
@@ -76,6 +100,31 @@ const Pricing = () => {
     return subscribed && subscriptionTier === planName;
   };
 
+  const handleCurrencyChange = (value: string) => {
+    setCurrency(value as Currency);
+    localStorage.setItem('preferredCurrency', value);
+  };
+
+  const visiblePlans = plans.filter(
+    plan => plan.currency === currency && plan.billing_interval === billingInterval
+  );
+
+  // Savings against paying the same tier monthly in the same currency
+  const getAnnualSavings = (plan: Plan) => {
+    if (plan.billing_interval !== 'year') return 0;
+    const monthly = plans.find(
+      p => p.tier === plan.tier && p.currency === plan.currency && p.billing_interval === 'month'
+    );
+    return monthly ? annualSavingsPercent(monthly.amount, plan.amount) : 0;
+  };
+
+  const maxAnnualSavings = Math.max(
+    0,
+    ...plans
+      .filter(plan => plan.currency === currency && plan.billing_interval === 'year')
+      .map(getAnnualSavings)
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
       <div className="container mx-auto px-4 py-16">
@@ -86,47 +135,97 @@ const Pricing = () => {
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
             Unlock unlimited streaming with our flexible subscription plans
           </p>
-        </div>
 
-        <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-          {plans.map((plan) => (
-            <Card key={plan.name} className={`relative ${plan.popular ? 'border-primary shadow-lg scale-105' : ''}`}>
-              {plan.popular && (
-                <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-primary text-primary-foreground">
-                  Most Popular
-                </Badge>
+          <div className="flex flex-wrap items-center justify-center gap-6 mt-8">
+            <div className="flex items-center gap-3">
+              <span className={`text-sm ${billingInterval === 'month' ? 'font-semibold' : 'text-muted-foreground'}`}>
+                Monthly
+              </span>
+              <Switch
+                checked={billingInterval === 'year'}
+                onCheckedChange={(checked) => setBillingInterval(checked ? 'year' : 'month')}
+                aria-label="Bill annually"
+              />
+              <span className={`text-sm ${billingInterval === 'year' ? 'font-semibold' : 'text-muted-foreground'}`}>
+                Annual
+              </span>
+              {maxAnnualSavings > 0 && (
+                <Badge variant="secondary">Save up to {maxAnnualSavings}%</Badge>
               )}
-              <CardHeader className="text-center">
-                <CardTitle className="text-2xl">{plan.name}</CardTitle>
-                <CardDescription>{plan.description}</CardDescription>
-                <div className="text-3xl font-bold text-primary">
-                  {plan.price}<span className="text-sm text-muted-foreground">/month</span>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <ul className="space-y-3">
-                  {plan.features.map((feature, index) => (
-                    <li key={index} className="flex items-center gap-2">
-                      <Check className="h-4 w-4 text-primary" />
-                      <span className="text-sm">{feature}</span>
-                    </li>
-                  ))}
-                </ul>
-                
-                <Button 
-                  className="w-full mt-6" 
-                  onClick={() => handleSubscribe(plan.name)}
-                  disabled={loading === plan.name || isCurrentPlan(plan.name)}
-                  variant={isCurrentPlan(plan.name) ? "secondary" : "default"}
-                >
-                  {loading === plan.name ? "Processing..." : 
-                   isCurrentPlan(plan.name) ? "Current Plan" : `Subscribe to ${plan.name}`}
-                </Button>
-              </CardContent>
-            </Card>
-          ))}
+            </div>
+
+            <Select value={currency} onValueChange={handleCurrencyChange}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        {plansLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-10 w-10 animate-spin border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : visiblePlans.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            No plans are available in {currency.toUpperCase()} yet. Try another currency.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
+            {visiblePlans.map((plan) => (
+              <Card key={plan.id} className={`relative ${plan.popular ? 'border-primary shadow-lg scale-105' : ''}`}>
+                {plan.popular && (
+                  <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-primary text-primary-foreground">
+                    Most Popular
+                  </Badge>
+                )}
+                <CardHeader className="text-center">
+                  <CardTitle className="text-2xl">{plan.name}</CardTitle>
+                  <CardDescription>{plan.description}</CardDescription>
+                  <div className="text-3xl font-bold text-primary">
+                    {formatPrice(plan.amount, plan.currency)}<span className="text-sm text-muted-foreground">/{plan.billing_interval}</span>
+                  </div>
+                  {!subscribed && plan.trial_period_days > 0 && (
+                    <p className="text-sm font-medium">
+                      {plan.trial_period_days}-day free trial for new members
+                    </p>
+                  )}
+                  {getAnnualSavings(plan) > 0 && (
+                    <p className="text-sm text-green-600">
+                      Save {getAnnualSavings(plan)}% vs monthly
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ul className="space-y-3">
+                    {plan.features.map((feature, index) => (
+                      <li key={index} className="flex items-center gap-2">
+                        <Check className="h-4 w-4 text-primary" />
+                        <span className="text-sm">{feature}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  
+                  <Button 
+                    className="w-full mt-6" 
+                    onClick={() => handleSubscribe(plan)}
+                    disabled={loading === plan.stripe_price_id || isCurrentPlan(plan.tier)}
+                    variant={isCurrentPlan(plan.tier) ? "secondary" : "default"}
+                  >
+                    {loading === plan.stripe_price_id ? "Processing..." : 
+                     isCurrentPlan(plan.tier) ? "Current Plan" : `Subscribe to ${plan.name}`}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
         <div className="text-center mt-12">
           <p className="text-sm text-muted-foreground">
             Cancel anytime. No hidden fees.
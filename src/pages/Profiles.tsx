@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Film, Pencil, Plus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile, ViewerProfile } from '@/contexts/ProfileContext';
+import { useToast } from '@/hooks/use-toast';
+import { profileLimit } from '@/lib/subscription';
+import ProfileAvatar from '@/components/ProfileAvatar';
+import ProfileEditorDialog from '@/components/ProfileEditorDialog';
+import AccountPinDialog from '@/components/AccountPinDialog';
+
+// "Who's watching?" Shown after sign-in and whenever the viewer switches profile.
+const Profiles = () => {
+  const { user, loading: authLoading, subscribed, subscriptionTier } = useAuth();
+  const { profiles, activeProfile, selectProfile, refreshProfiles, loading } = useProfile();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [managing, setManaging] = useState(false);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<ViewerProfile | null>(null);
+  // Set when the switch needs the account PIN
+  const [pinFor, setPinFor] = useState<ViewerProfile | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  const limit = profileLimit(subscribed, subscriptionTier);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const switchTo = async (profile: ViewerProfile, pin?: string) => {
+    setSwitching(true);
+    try {
+      if (await selectProfile(profile.id, pin)) {
+        setPinFor(null);
+        navigate('/');
+      } else if (pin) {
+        toast({
+          title: "Incorrect PIN",
+          description: "Check the account PIN and try again.",
+          variant: "destructive",
+        });
+      } else {
+        setPinFor(profile);
+      }
+    } catch (error) {
+      console.error('Error selecting profile:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to switch profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  const handleSelect = (profile: ViewerProfile) => {
+    if (managing) {
+      setEditing(profile);
+      setEditorOpen(true);
+      return;
+    }
+
+    switchTo(profile);
+  };
+
+  const openNewProfile = () => {
+    setEditing(null);
+    setEditorOpen(true);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Film className="h-12 w-12 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading profiles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-muted px-4">
+      <div className="w-full max-w-3xl text-center">
+        <h1 className="text-3xl font-bold mb-8">{managing ? 'Manage Profiles' : "Who's watching?"}</h1>
+
+        <div className="flex flex-wrap justify-center gap-6 mb-8">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              type="button"
+              onClick={() => handleSelect(profile)}
+              className="group flex w-28 flex-col items-center gap-2 focus:outline-none"
+            >
+              <div className="relative">
+                <ProfileAvatar
+                  profile={profile}
+                  className={`h-24 w-24 text-3xl ring-offset-background transition group-hover:ring-2 group-hover:ring-primary group-focus-visible:ring-2 group-focus-visible:ring-primary ${
+                    profile.id === activeProfile?.id ? 'ring-2 ring-primary/50' : ''
+                  }`}
+                />
+                {managing && (
+                  <div className="absolute inset-0 flex items-center justify-center rounded-md bg-background/60">
+                    <Pencil className="h-6 w-6" />
+                  </div>
+                )}
+              </div>
+              <span className="text-sm font-medium truncate max-w-full">{profile.display_name}</span>
+              {profile.is_kids && <Badge variant="secondary">Kids</Badge>}
+            </button>
+          ))}
+
+          {profiles.length < limit && (
+            <button
+              type="button"
+              onClick={openNewProfile}
+              className="group flex w-28 flex-col items-center gap-2 focus:outline-none"
+            >
+              <div className="flex h-24 w-24 items-center justify-center rounded-md border-2 border-dashed border-muted-foreground/40 transition group-hover:border-primary">
+                <Plus className="h-8 w-8 text-muted-foreground group-hover:text-primary" />
+              </div>
+              <span className="text-sm font-medium text-muted-foreground">Add Profile</span>
+            </button>
+          )}
+        </div>
+
+        {profiles.length >= limit && (
+          <p className="text-sm text-muted-foreground mb-6">
+            Your plan allows {limit} {limit === 1 ? 'profile' : 'profiles'}.{' '}
+            {subscriptionTier !== 'Premium' && (
+              <Link to="/pricing" className="text-primary underline-offset-4 hover:underline">
+                Upgrade for more
+              </Link>
+            )}
+          </p>
+        )}
+
+        <Button variant="outline" onClick={() => setManaging(!managing)}>
+          {managing ? 'Done' : 'Manage Profiles'}
+        </Button>
+      </div>
+
+      <ProfileEditorDialog
+        open={editorOpen}
+        profile={editing}
+        onOpenChange={setEditorOpen}
+        onSaved={refreshProfiles}
+      />
+
+      <AccountPinDialog
+        open={!!pinFor}
+        profileName={pinFor?.display_name ?? 'this profile'}
+        checking={switching}
+        onOpenChange={(open) => !open && setPinFor(null)}
+        onSubmit={(pin) => pinFor && switchTo(pinFor, pin)}
+      />
+    </div>
+  );
+};
+
+export default Profiles;
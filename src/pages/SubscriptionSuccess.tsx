@@ -6,7 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { CheckCircle, ArrowRight } from 'lucide-react';
 
 const SubscriptionSuccess = () => {
-  const { user, checkSubscription } = useAuth();
+  const { user, refreshSubscription } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -15,13 +15,13 @@ const SubscriptionSuccess = () => {
       return;
     }
     
-    // Check subscription status after successful payment
+    // Sync straight from Stripe in case the webhook hasn't been delivered yet
     const timer = setTimeout(() => {
-      checkSubscription();
+      refreshSubscription();
     }, 2000);
 
     return () => clearTimeout(timer);
-  }, [user, navigate, checkSubscription]);
+  }, [user, navigate, refreshSubscription]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted flex items-center justify-center p-4">
@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Play, RotateCcw, Lock, Film, MonitorSmartphone } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import ParentalPinPrompt from '@/components/ParentalPinPrompt';
+import StreamLimitPrompt from '@/components/StreamLimitPrompt';
+import { queryKeys } from '@/lib/queryKeys';
+import { COMPLETION_THRESHOLD, PROGRESS_SAVE_INTERVAL_MS, STREAM_HEARTBEAT_INTERVAL_MS, formatPlaybackTime } from '@/lib/playback';
+
+interface Movie {
+  id: string;
+  title: string;
+  poster_url: string;
+  subscription_tier: string;
+  certification: string | null;
+}
+
+interface HistoryEntry {
+  id: string;
+  progress_seconds: number | null;
+  completed: boolean | null;
+}
+
+interface PlaybackSource {
+  url: string | null;
+  reason?: 'subscription_required' | 'maturity_restricted' | 'stream_limit' | 'unavailable';
+}
+
+const Watch = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { activeProfile } = useProfile();
+  const queryClient = useQueryClient();
+
+  const [movie, setMovie] = useState<Movie | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [resumeEntry, setResumeEntry] = useState<HistoryEntry | null>(null);
+  const [startPosition, setStartPosition] = useState<number | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSource | null>(null);
+  // Another device on the account took this one's stream slot
+  const [streamTaken, setStreamTaken] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Last known playhead, kept from timeupdate. React clears videoRef before the
+  // unmount cleanup runs, so the final save reads from here instead.
+  const playheadRef = useRef<{ currentTime: number; duration: number } | null>(null);
+
+  const recordPlayhead = (video: HTMLVideoElement) => {
+    playheadRef.current = { currentTime: video.currentTime, duration: video.duration };
+  };
+  const historyIdRef = useRef<string | null>(null);
+  const completedRef = useRef(false);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (id) {
+      fetchPlaybackData();
+    }
+  }, [id, user, authLoading]);
+
+  const fetchPlaybackData = async () => {
+    if (!user || !id) return;
+
+    try {
+      const { data: movieData, error } = await supabase
+        .from('movies')
+        .select('id, title, poster_url, subscription_tier, certification')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setMovie(movieData);
+
+      // Entitlement is decided server-side; the stream URL is only handed out to subscribers who qualify
+      const { data: playbackData, error: playbackError } = await supabase.functions.invoke('get-playback-url', {
+        body: { movieId: id }
+      });
+
+      if (playbackError) throw playbackError;
+      setPlayback(playbackData);
+      setStreamTaken(false);
+
+      // Most recent history row decides whether we can offer to resume
+      const { data: historyData } = await supabase
+        .from('viewing_history')
+        .select('id, progress_seconds, completed')
+        .eq('user_id', user.id)
+        .eq('movie_id', id)
+        .order('watched_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (historyData && !historyData.completed && (historyData.progress_seconds || 0) > 0) {
+        historyIdRef.current = historyData.id;
+        setResumeEntry(historyData);
+      } else {
+        setStartPosition(0);
+      }
+    } catch (error) {
+      console.error('Error loading playback data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load this movie",
+        variant: "destructive",
+      });
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveProgress = useCallback(async () => {
+    if (videoRef.current) recordPlayhead(videoRef.current);
+    const playhead = playheadRef.current;
+    if (!user || !movie || !playhead || !playhead.duration) return;
+
+    const progressSeconds = Math.floor(playhead.currentTime);
+    const completed = completedRef.current || playhead.currentTime / playhead.duration >= COMPLETION_THRESHOLD;
+    completedRef.current = completed;
+
+    try {
+      if (historyIdRef.current) {
+        const { error } = await supabase
+          .from('viewing_history')
+          .update({
+            progress_seconds: progressSeconds,
+            completed,
+            // Watching again brings a title removed from Continue Watching back
+            dismissed: false,
+            watched_at: new Date().toISOString()
+          })
+          .eq('id', historyIdRef.current);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('viewing_history')
+          .insert({
+            user_id: user.id,
+            movie_id: movie.id,
+            progress_seconds: progressSeconds,
+            completed
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        historyIdRef.current = data.id;
+      }
+
+      // Continue Watching and the recommendation rows reload with this progress when next shown
+      queryClient.invalidateQueries({ queryKey: queryKeys.viewingHistory(activeProfile?.id ?? null) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recommendations(activeProfile?.id ?? null) });
+    } catch (error) {
+      console.error('Error saving playback progress:', error);
+    }
+  }, [user, movie, activeProfile, queryClient]);
+
+  // Periodically persist progress while the player is mounted
+  useEffect(() => {
+    if (startPosition === null) return;
+
+    const interval = setInterval(() => {
+      if (videoRef.current && !videoRef.current.paused) {
+        saveProgress();
+      }
+    }, PROGRESS_SAVE_INTERVAL_MS);
+
+    // Closing the tab or switching away may never unmount the player
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveProgress();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', saveProgress);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', saveProgress);
+      saveProgress();
+    };
+  }, [startPosition, saveProgress]);
+
+  // Keep this device's stream slot while the player is open. The slot is lost if
+  // someone stops it from another device, and playback stops with it.
+  useEffect(() => {
+    if (!playback?.url || streamTaken) return;
+
+    const interval = setInterval(async () => {
+      const { data, error } = await supabase.rpc('stream_heartbeat');
+      if (error) {
+        console.error('Error renewing stream:', error);
+        return;
+      }
+      if (!data) {
+        videoRef.current?.pause();
+        setStreamTaken(true);
+      }
+    }, STREAM_HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [playback, streamTaken]);
+
+  // Free the slot on leaving, rather than waiting for it to go stale
+  useEffect(() => {
+    return () => {
+      supabase.rpc('end_stream').then(({ error }) => {
+        if (error) console.error('Error ending stream:', error);
+      });
+    };
+  }, []);
+
+  // Asks for a slot again; the player reopens on the resume prompt so it picks up where it stopped
+  const reclaimStream = () => {
+    setLoading(true);
+    setStartPosition(null);
+    fetchPlaybackData();
+  };
+
+  const handleLoadedMetadata = () => {
+    if (videoRef.current && startPosition) {
+      videoRef.current.currentTime = startPosition;
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    if (videoRef.current) recordPlayhead(videoRef.current);
+  };
+
+  const handleEnded = () => {
+    completedRef.current = true;
+    saveProgress();
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black">
+        <div className="text-center">
+          <div className="h-12 w-12 animate-spin mx-auto mb-4 border-4 border-primary border-t-transparent rounded-full"></div>
+          <p className="text-white/70">Loading player...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!movie || !playback) return null;
+
+  if (playback.reason === 'subscription_required') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Lock className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Subscription required</CardTitle>
+            <CardDescription>
+              You need a {movie.subscription_tier} subscription to watch {movie.title}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            <Link to="/pricing" className="w-full">
+              <Button className="w-full">View Plans</Button>
+            </Link>
+            <Button variant="outline" className="w-full" onClick={() => navigate(`/movie/${movie.id}`)}>
+              Back to Details
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (playback.reason === 'maturity_restricted') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black p-4">
+        <ParentalPinPrompt
+          movieId={movie.id}
+          title={movie.title}
+          certification={movie.certification}
+          onUnlocked={() => {
+            setLoading(true);
+            fetchPlaybackData();
+          }}
+          onCancel={() => navigate(`/movie/${movie.id}`)}
+        />
+      </div>
+    );
+  }
+
+  if (playback.reason === 'stream_limit') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black p-4">
+        <StreamLimitPrompt
+          onStreamFreed={reclaimStream}
+          onCancel={() => navigate(`/movie/${movie.id}`)}
+        />
+      </div>
+    );
+  }
+
+  if (streamTaken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <MonitorSmartphone className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Playback stopped</CardTitle>
+            <CardDescription>
+              {movie.title} was stopped from another device on your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            <Button className="w-full" onClick={reclaimStream}>
+              Watch Here
+            </Button>
+            <Button variant="outline" className="w-full" onClick={() => navigate(`/movie/${movie.id}`)}>
+              Back to Details
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!playback.url) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Film className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Not available to stream</CardTitle>
+            <CardDescription>
+              {movie.title} isn't available to stream yet. Check back soon.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full" onClick={() => navigate(`/movie/${movie.id}`)}>
+              Back to Details
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black flex items-center justify-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => navigate(-1)}
+        className="absolute top-4 left-4 z-50 text-white hover:bg-white/20"
+      >
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        {movie.title}
+      </Button>
+
+      {startPosition === null && resumeEntry ? (
+        <div className="relative w-full h-full flex items-center justify-center">
+          <img
+            src={movie.poster_url}
+            alt={movie.title}
+            className="absolute inset-0 w-full h-full object-cover opacity-20 blur-sm"
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = '/placeholder.svg';
+            }}
+          />
+          <div className="relative flex flex-col gap-3 w-full max-w-xs">
+            <Button size="lg" onClick={() => setStartPosition(resumeEntry.progress_seconds || 0)}>
+              <Play className="h-5 w-5 mr-2" />
+              Resume from {formatPlaybackTime(resumeEntry.progress_seconds || 0)}
+            </Button>
+            <Button
+              size="lg"
+              variant="secondary"
+              onClick={() => {
+                // Starting over gets its own history row so the old position isn't overwritten mid-way
+                historyIdRef.current = null;
+                setStartPosition(0);
+              }}
+            >
+              <RotateCcw className="h-5 w-5 mr-2" />
+              Start from beginning
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <video
+          ref={videoRef}
+          src={playback.url}
+          poster={movie.poster_url}
+          className="w-full h-full"
+          controls
+          autoPlay
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={handleTimeUpdate}
+          onPause={saveProgress}
+          onEnded={handleEnded}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Watch;
@@ -1,81 +1,146 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { ArrowLeft, Film } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, ArrowUpDown, Film, GripVertical, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import {
+  WatchlistEntry,
+  useCreateWatchlist,
+  useDeleteWatchlist,
+  useRenameWatchlist,
+  useReorderWatchlist,
+  useWatchlist,
+  useWatchlists,
+} from '@/hooks/use-watchlist';
 import MovieCard from '@/components/MovieCard';
+import WatchlistNameDialog from '@/components/WatchlistNameDialog';
+import WatchlistNoteEditor from '@/components/WatchlistNoteEditor';
 
-interface Movie {
-  id: string;
-  title: string;
-  description: string;
-  genre: string[];
-  release_year: number;
-  duration_minutes: number;
-  rating: number;
-  poster_url: string;
-  subscription_tier: string;
-}
+type WatchlistSort = 'custom' | 'added' | 'title' | 'rating' | 'release_year';
+
+const sortEntries = (entries: WatchlistEntry[], sort: WatchlistSort) => {
+  const sorted = [...entries];
+  switch (sort) {
+    case 'added':
+      return sorted.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    case 'title':
+      return sorted.sort((a, b) => a.movie.title.localeCompare(b.movie.title));
+    case 'rating':
+      return sorted.sort((a, b) => (b.movie.rating ?? 0) - (a.movie.rating ?? 0));
+    case 'release_year':
+      return sorted.sort((a, b) => b.movie.release_year - a.movie.release_year);
+    default:
+      return sorted.sort((a, b) => a.position - b.position || b.created_at.localeCompare(a.created_at));
+  }
+};
+
+// Matches on title, genre or the viewer's own note
+const matchesFilter = (entry: WatchlistEntry, term: string) =>
+  entry.movie.title.toLowerCase().includes(term) ||
+  entry.movie.genre.some((g) => g.toLowerCase().includes(term)) ||
+  !!entry.note?.toLowerCase().includes(term);
 
 const Watchlist = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [movies, setMovies] = useState<Movie[]>([]);
-  const [userRatings, setUserRatings] = useState<Record<string, number>>({});
-  const [loading, setLoading] = useState(true);
+  // The open list is kept in the URL, so back-navigation and shared links return to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { lists, defaultList, loading: listsLoading } = useWatchlists();
+  const { entries, loading: entriesLoading } = useWatchlist();
+  const createMutation = useCreateWatchlist();
+  const renameMutation = useRenameWatchlist();
+  const deleteMutation = useDeleteWatchlist();
+  const reorderMutation = useReorderWatchlist();
+  const [sort, setSort] = useState<WatchlistSort>('custom');
+  const [filter, setFilter] = useState('');
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [draggedMovieId, setDraggedMovieId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const activeList = lists.find((list) => list.id === searchParams.get('list')) ?? defaultList;
 
   useEffect(() => {
     if (!user) {
       navigate('/auth');
-      return;
     }
-    fetchWatchlist();
   }, [user, navigate]);
 
-  const fetchWatchlist = async () => {
-    if (!user) return;
+  const countsByList = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      counts.set(entry.list_id, (counts.get(entry.list_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [entries]);
+
+  const listEntries = useMemo(
+    () => sortEntries(entries.filter((entry) => entry.list_id === activeList?.id), 'custom'),
+    [entries, activeList?.id]
+  );
 
+  const visibleEntries = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    const matching = term ? listEntries.filter((entry) => matchesFilter(entry, term)) : listEntries;
+    return sortEntries(matching, sort);
+  }, [listEntries, filter, sort]);
+
+  // Dragging only makes sense when the whole list is shown in its own order
+  const canReorder = sort === 'custom' && !filter.trim() && listEntries.length > 1;
+
+  const selectList = (listId: string) => {
+    setFilter('');
+    setSearchParams(listId === defaultList?.id ? {} : { list: listId }, { replace: true });
+  };
+
+  const handleNameSubmit = async (name: string) => {
     try {
-      setLoading(true);
-      
-      // Fetch watchlist with movie data
-      const { data: watchlistData, error } = await supabase
-        .from('watchlist')
-        .select(`
-          movie_id,
-          movies (*)
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const movieList = watchlistData?.map(item => item.movies).filter(Boolean) || [];
-      setMovies(movieList as Movie[]);
-
-      // Fetch user ratings
-      const { data: ratingsData } = await supabase
-        .from('user_ratings')
-        .select('movie_id, rating')
-        .eq('user_id', user.id);
-
-      if (ratingsData) {
-        const ratingsMap = ratingsData.reduce((acc, item) => {
-          acc[item.movie_id] = item.rating;
-          return acc;
-        }, {} as Record<string, number>);
-        setUserRatings(ratingsMap);
+      if (nameDialog === 'rename' && activeList) {
+        await renameMutation.mutateAsync({ list: activeList, name });
+      } else {
+        const list = await createMutation.mutateAsync(name);
+        selectList(list.id);
       }
-    } catch (error) {
-      console.error('Error fetching watchlist:', error);
-    } finally {
-      setLoading(false);
+      setNameDialog(null);
+    } catch {
+      // The hooks have already shown the error
     }
   };
 
-  if (loading) {
+  const handleDelete = () => {
+    if (!activeList) return;
+    deleteMutation.mutate(activeList);
+    selectList(defaultList.id);
+  };
+
+  const handleDrop = (targetMovieId: string) => {
+    const draggedId = draggedMovieId;
+    setDraggedMovieId(null);
+    setDropTargetId(null);
+    if (!activeList || !draggedId || draggedId === targetMovieId) return;
+
+    // The dragged title takes the target's place: after it when moving down, before it when moving up
+    const movieIds = listEntries.map((entry) => entry.movie.id);
+    const targetIndex = movieIds.indexOf(targetMovieId);
+    movieIds.splice(movieIds.indexOf(draggedId), 1);
+    movieIds.splice(targetIndex, 0, draggedId);
+    reorderMutation.mutate({ listId: activeList.id, movieIds });
+  };
+
+  if (listsLoading || entriesLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -99,36 +164,157 @@ const Watchlist = () => {
           <h1 className="text-3xl font-bold">My Watchlist</h1>
         </div>
 
-        {movies.length > 0 ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {movies.map((movie) => (
-              <MovieCard
-                key={movie.id}
-                movie={movie}
-                isInWatchlist={true}
-                userRating={userRatings[movie.id]}
-                onWatchlistUpdate={fetchWatchlist}
-                onRatingUpdate={fetchWatchlist}
+        {/* Lists */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {lists.map((list) => (
+            <Button
+              key={list.id}
+              variant={list.id === activeList?.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => selectList(list.id)}
+            >
+              {list.name}
+              <span className="ml-2 text-xs opacity-70">{countsByList.get(list.id) ?? 0}</span>
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => setNameDialog('create')}>
+            <Plus className="h-4 w-4 mr-1" />
+            New List
+          </Button>
+        </div>
+
+        {activeList && (
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <div className="relative flex-1 min-w-[200px] max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={`Filter ${activeList.name}...`}
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="pl-9"
               />
+            </div>
+            <Select value={sort} onValueChange={(value) => setSort(value as WatchlistSort)}>
+              <SelectTrigger className="w-44">
+                <ArrowUpDown className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="custom">Custom order</SelectItem>
+                <SelectItem value="added">Recently added</SelectItem>
+                <SelectItem value="title">Title</SelectItem>
+                <SelectItem value="rating">Rating</SelectItem>
+                <SelectItem value="release_year">Year</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2 sm:ml-auto">
+              <Button variant="outline" size="sm" onClick={() => setNameDialog('rename')}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Rename
+              </Button>
+              {!activeList.is_default && (
+                <Button variant="outline" size="sm" onClick={() => setConfirmDelete(true)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {canReorder && (
+          <p className="text-sm text-muted-foreground mb-4 flex items-center gap-1">
+            <GripVertical className="h-4 w-4" />
+            Drag titles to reorder the list
+          </p>
+        )}
+
+        {visibleEntries.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+            {visibleEntries.map((entry) => (
+              <div
+                key={entry.movie.id}
+                draggable={canReorder}
+                onDragStart={(e) => {
+                  if (!canReorder) return;
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedMovieId(entry.movie.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedMovieId) return;
+                  e.preventDefault();
+                  setDropTargetId(entry.movie.id);
+                }}
+                onDragLeave={() => setDropTargetId((id) => (id === entry.movie.id ? null : id))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(entry.movie.id);
+                }}
+                onDragEnd={() => {
+                  setDraggedMovieId(null);
+                  setDropTargetId(null);
+                }}
+                className={`rounded-lg transition-opacity ${
+                  draggedMovieId === entry.movie.id ? 'opacity-50' : ''
+                } ${dropTargetId === entry.movie.id && draggedMovieId !== entry.movie.id ? 'ring-2 ring-primary' : ''}`}
+              >
+                <MovieCard movie={entry.movie} />
+                <WatchlistNoteEditor entry={entry} />
+              </div>
             ))}
           </div>
         ) : (
           <Card>
             <CardContent className="p-12 text-center">
               <Film className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-lg font-semibold mb-2">Your watchlist is empty</h3>
-              <p className="text-muted-foreground mb-4">
-                Add movies to your watchlist to keep track of what you want to watch
-              </p>
-              <Link to="/">
-                <Button>Browse Movies</Button>
-              </Link>
+              {listEntries.length > 0 ? (
+                <>
+                  <h3 className="text-lg font-semibold mb-2">No matches</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Nothing in {activeList?.name} matches "{filter.trim()}"
+                  </p>
+                  <Button variant="outline" onClick={() => setFilter('')}>Clear Filter</Button>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-semibold mb-2">{activeList?.name ?? 'Your watchlist'} is empty</h3>
+                  <p className="text-muted-foreground mb-4">
+                    Use the + button on any movie to save it to a list
+                  </p>
+                  <Link to="/">
+                    <Button>Browse Movies</Button>
+                  </Link>
+                </>
+              )}
             </CardContent>
           </Card>
         )}
       </div>
+
+      <WatchlistNameDialog
+        open={!!nameDialog}
+        initialName={nameDialog === 'rename' ? activeList?.name : ''}
+        saving={createMutation.isPending || renameMutation.isPending}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+        onSubmit={handleNameSubmit}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activeList?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The list and its notes are removed. Titles saved to other lists stay there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
 
-export default Watchlist;
\ No newline at end of file
+export default Watchlist;
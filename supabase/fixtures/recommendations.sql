@@ -0,0 +1,128 @@
+-- Deterministic fixture for the recommendation functions: five movies, three
+-- viewers and a handful of ratings with known answers. Everything runs inside
+-- a transaction that is rolled back, so it is safe against a local database:
+--
+--   psql "$DATABASE_URL" -f supabase/fixtures/recommendations.sql
+--
+-- Fixture people use negative TMDB ids so they never overlap real credits.
+BEGIN;
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-b000-000000000001', 'fixture-one@example.com'),
+  ('00000000-0000-4000-b000-000000000002', 'fixture-two@example.com'),
+  ('00000000-0000-4000-b000-000000000003', 'fixture-three@example.com');
+
+INSERT INTO public.movies (id, title, release_year, rating) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'Fixture: The Long Heist', 2001, 7.5),
+  ('00000000-0000-4000-a000-000000000002', 'Fixture: The Long Heist II', 2004, 7.0),
+  ('00000000-0000-4000-a000-000000000003', 'Fixture: Small Caper', 2010, 6.5),
+  ('00000000-0000-4000-a000-000000000004', 'Fixture: Autumn Letters', 1998, 7.8),
+  ('00000000-0000-4000-a000-000000000005', 'Fixture: Quiet Harbour', 2015, 7.2);
+
+INSERT INTO public.movie_genres (movie_id, genre_id, position)
+SELECT fixture.movie_id, g.id, fixture.position
+FROM (VALUES
+  ('00000000-0000-4000-a000-000000000001'::uuid, 'Crime', 0),
+  ('00000000-0000-4000-a000-000000000001'::uuid, 'Thriller', 1),
+  ('00000000-0000-4000-a000-000000000002'::uuid, 'Crime', 0),
+  ('00000000-0000-4000-a000-000000000002'::uuid, 'Thriller', 1),
+  ('00000000-0000-4000-a000-000000000003'::uuid, 'Crime', 0),
+  ('00000000-0000-4000-a000-000000000003'::uuid, 'Comedy', 1),
+  ('00000000-0000-4000-a000-000000000004'::uuid, 'Romance', 0),
+  ('00000000-0000-4000-a000-000000000004'::uuid, 'Drama', 1),
+  ('00000000-0000-4000-a000-000000000005'::uuid, 'Drama', 0)
+) AS fixture(movie_id, genre_name, position)
+JOIN public.genres g ON g.name = fixture.genre_name;
+
+INSERT INTO public.people (tmdb_person_id, name) VALUES
+  (-101, 'Avery Fixture'),
+  (-102, 'Blake Fixture'),
+  (-103, 'Casey Fixture'),
+  (-104, 'Drew Fixture'),
+  (-105, 'Emery Fixture'),
+  (-106, 'Finley Fixture'),
+  (-201, 'Dana Fixture');
+
+INSERT INTO public.cast_members (movie_id, tmdb_person_id, order_position) VALUES
+  ('00000000-0000-4000-a000-000000000001', -101, 0),
+  ('00000000-0000-4000-a000-000000000001', -102, 1),
+  ('00000000-0000-4000-a000-000000000002', -101, 0),
+  ('00000000-0000-4000-a000-000000000002', -103, 1),
+  ('00000000-0000-4000-a000-000000000003', -104, 0),
+  ('00000000-0000-4000-a000-000000000004', -105, 0),
+  ('00000000-0000-4000-a000-000000000005', -106, 0);
+
+INSERT INTO public.crew_members (movie_id, tmdb_person_id, job, department) VALUES
+  ('00000000-0000-4000-a000-000000000001', -201, 'Director', 'Directing'),
+  ('00000000-0000-4000-a000-000000000002', -201, 'Director', 'Directing');
+
+-- Viewer one loved the first heist; viewer two loved both heists and the romance;
+-- viewer three loved the two dramas and finished Quiet Harbour. Ratings and history
+-- belong to a profile: each viewer's primary one, created by handle_new_user above.
+-- There is no signed-in user yet, so profile_id can't come from its default.
+INSERT INTO public.user_ratings (user_id, profile_id, movie_id, rating)
+SELECT fixture.user_id, p.id, fixture.movie_id, fixture.rating
+FROM (VALUES
+  ('00000000-0000-4000-b000-000000000001'::uuid, '00000000-0000-4000-a000-000000000001'::uuid, 5),
+  ('00000000-0000-4000-b000-000000000002'::uuid, '00000000-0000-4000-a000-000000000001'::uuid, 5),
+  ('00000000-0000-4000-b000-000000000002'::uuid, '00000000-0000-4000-a000-000000000002'::uuid, 5),
+  ('00000000-0000-4000-b000-000000000002'::uuid, '00000000-0000-4000-a000-000000000004'::uuid, 4),
+  ('00000000-0000-4000-b000-000000000003'::uuid, '00000000-0000-4000-a000-000000000004'::uuid, 5),
+  ('00000000-0000-4000-b000-000000000003'::uuid, '00000000-0000-4000-a000-000000000005'::uuid, 5)
+) AS fixture(user_id, movie_id, rating)
+JOIN public.profiles p ON p.user_id = fixture.user_id AND p.is_primary;
+
+INSERT INTO public.viewing_history (user_id, profile_id, movie_id, progress_seconds, completed)
+SELECT p.user_id, p.id, '00000000-0000-4000-a000-000000000005', 6000, true
+FROM public.profiles p
+WHERE p.user_id = '00000000-0000-4000-b000-000000000003' AND p.is_primary;
+
+DO $$
+DECLARE
+  top RECORD;
+BEGIN
+  ASSERT (SELECT count(*) FROM public.user_ratings WHERE user_id IN (
+    '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-b000-000000000002', '00000000-0000-4000-b000-000000000003'
+  )) = 6, 'every fixture rating should land on its viewer''s primary profile';
+
+  -- More like this: the sequel shares genres, lead actor, director and a fan
+  SELECT * INTO top FROM public.similar_movies('00000000-0000-4000-a000-000000000001') LIMIT 1;
+  ASSERT top.id = '00000000-0000-4000-a000-000000000002', 'sequel should be the closest match';
+  ASSERT top.reason = 'Same director: Dana Fixture', format('unexpected reason: %s', top.reason);
+
+  ASSERT (
+    SELECT reason FROM public.similar_movies('00000000-0000-4000-a000-000000000001', 50)
+    WHERE id = '00000000-0000-4000-a000-000000000003'
+  ) = 'Also Crime', 'genre-only match should explain the shared genre';
+
+  ASSERT (
+    SELECT reason FROM public.similar_movies('00000000-0000-4000-a000-000000000001', 50)
+    WHERE id = '00000000-0000-4000-a000-000000000004'
+  ) = 'Liked by the same viewers', 'fan-only match should explain the shared fan';
+
+  -- Recommended for you, as viewer one. No profile has been picked on this
+  -- "device", so current_profile_id() falls back to the primary profile.
+  PERFORM set_config('request.jwt.claim.sub', '00000000-0000-4000-b000-000000000001', true);
+
+  SELECT * INTO top FROM public.recommended_movies() LIMIT 1;
+  ASSERT top.id = '00000000-0000-4000-a000-000000000002', 'viewer one should be offered the sequel first';
+  ASSERT top.reason = 'Because you liked Fixture: The Long Heist · Same director: Dana Fixture',
+    format('unexpected reason: %s', top.reason);
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM public.recommended_movies(50) WHERE id = '00000000-0000-4000-a000-000000000001'
+  ), 'rated titles are never recommended';
+
+  -- Because you watched, as viewer three: built from Quiet Harbour, minus what they've seen
+  PERFORM set_config('request.jwt.claim.sub', '00000000-0000-4000-b000-000000000003', true);
+
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM public.because_you_watched(50)
+    WHERE source_movie_id <> '00000000-0000-4000-a000-000000000005'
+      OR id IN ('00000000-0000-4000-a000-000000000004', '00000000-0000-4000-a000-000000000005')
+  ), 'because-you-watched should follow the latest title and skip seen ones';
+
+  RAISE NOTICE 'Recommendation fixture passed';
+END;
+$$;
+
+ROLLBACK;
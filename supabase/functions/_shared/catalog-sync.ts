@@ -0,0 +1,382 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type SyncMode = "full" | "new-releases" | "single";
+
+export const SYNC_MODES: SyncMode[] = ["full", "new-releases", "single"];
+
+export type SyncOutcome = "inserted" | "updated" | "unchanged";
+
+// How far back "new releases" reaches, and how many discover pages it reads
+const NEW_RELEASE_WINDOW_DAYS = 60;
+const NEW_RELEASE_PAGES = 5;
+
+const FULL_CATALOG_TARGET = 1000;
+const FULL_CATALOG_SORTS = ["popularity.desc", "vote_average.desc"];
+
+// TMDB allows roughly 40 requests a second; stay well below it
+const TMDB_REQUEST_DELAY_MS = 150;
+
+interface TmdbCastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+}
+
+interface TmdbCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+}
+
+// /movie/{id} with videos, credits and release dates appended, so each title costs one request
+export interface TmdbMovieDetails {
+  id: number;
+  title: string;
+  overview: string;
+  tagline?: string;
+  genres?: { id: number; name: string }[];
+  vote_average?: number;
+  popularity?: number;
+  runtime?: number | null;
+  release_date?: string;
+  original_language?: string;
+  production_countries?: { iso_3166_1: string; name: string }[];
+  imdb_id?: string | null;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  videos?: { results: { key: string; type: string; site: string }[] };
+  credits?: { cast: TmdbCastMember[]; crew: TmdbCrewMember[] };
+  release_dates?: { results: { iso_3166_1: string; release_dates: { certification: string }[] }[] };
+}
+
+// Fields owned by TMDB. The tier is ours: tier_rules set it in the database.
+// genre is compared to spot changes but written through movie_genres, which keeps movies.genre in step.
+interface SyncedFields {
+  tmdb_id: number;
+  title: string;
+  description: string | null;
+  tagline: string | null;
+  genre: string[];
+  rating: number | null;
+  popularity: number | null;
+  duration_minutes: number | null;
+  release_year: number | null;
+  release_date: string | null;
+  certification: string | null;
+  original_language: string | null;
+  production_countries: string[];
+  imdb_id: string | null;
+  poster_url: string | null;
+  backdrop_url: string | null;
+  trailer_url: string | null;
+}
+
+type ExistingMovie = Omit<SyncedFields, "tmdb_id" | "popularity"> & {
+  id: string;
+  tmdb_id: number | null;
+  sync_locked: boolean;
+};
+
+// popularity is left out: it drifts daily, so it is written along with other
+// changes but never makes an otherwise unchanged movie count as updated
+const SYNCED_FIELD_NAMES: (keyof SyncedFields)[] = [
+  "tmdb_id", "title", "description", "tagline", "genre", "rating", "duration_minutes", "release_year",
+  "release_date", "certification", "original_language", "production_countries", "imdb_id", "poster_url",
+  "backdrop_url", "trailer_url",
+];
+
+// Certifications are read from this country's release dates
+const CERTIFICATION_COUNTRY = "US";
+
+const KEY_CREW_JOBS = ["Director", "Writer", "Producer", "Executive Producer", "Screenplay", "Story"];
+
+export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const tmdbUrl = (path: string, tmdbApiKey: string, params: Record<string, string> = {}) => {
+  const query = new URLSearchParams({ api_key: tmdbApiKey, language: "en-US", ...params });
+  return `https://api.themoviedb.org/3${path}?${query}`;
+};
+
+const imageUrl = (path: string | null | undefined, size = "w500") => path ? `https://image.tmdb.org/t/p/${size}${path}` : null;
+
+const discoverIds = async (tmdbApiKey: string, params: Record<string, string>, maxPages: number) => {
+  const ids: number[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await fetch(tmdbUrl("/discover/movie", tmdbApiKey, { ...params, page: String(page) }));
+    if (!response.ok) throw new Error(`TMDB discover error: ${response.status}`);
+
+    const data = await response.json();
+    ids.push(...(data.results || []).map((movie: { id: number }) => movie.id));
+    if (page >= (data.total_pages || 0)) break;
+    await delay(TMDB_REQUEST_DELAY_MS);
+  }
+  return ids;
+};
+
+// The TMDB IDs a job will process, de-duplicated and in processing order
+export const discoverTmdbIds = async (tmdbApiKey: string, mode: SyncMode, tmdbId?: number | null): Promise<number[]> => {
+  if (mode === "single") {
+    if (!tmdbId) throw new Error("A numeric tmdbId is required for a single-title refresh");
+    return [tmdbId];
+  }
+
+  let ids: number[] = [];
+  if (mode === "new-releases") {
+    const today = new Date();
+    const since = new Date(today.getTime() - NEW_RELEASE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    ids = await discoverIds(tmdbApiKey, {
+      sort_by: "popularity.desc",
+      "primary_release_date.gte": since.toISOString().split("T")[0],
+      "primary_release_date.lte": today.toISOString().split("T")[0],
+      "vote_count.gte": "10",
+      include_adult: "false",
+    }, NEW_RELEASE_PAGES);
+  } else {
+    // Top movies since 1970, split across two sort orders to get a diverse catalog
+    const pagesPerSort = Math.ceil(FULL_CATALOG_TARGET / 20 / FULL_CATALOG_SORTS.length); // TMDb returns 20 movies per page
+    for (const sortBy of FULL_CATALOG_SORTS) {
+      ids.push(...await discoverIds(tmdbApiKey, {
+        sort_by: sortBy,
+        "primary_release_date.gte": "1970-01-01",
+        "vote_count.gte": "100",
+        include_adult: "false",
+      }, pagesPerSort));
+    }
+  }
+
+  return [...new Set(ids)].slice(0, FULL_CATALOG_TARGET);
+};
+
+export const fetchMovieDetails = async (tmdbApiKey: string, tmdbId: number): Promise<TmdbMovieDetails> => {
+  const response = await fetch(tmdbUrl(`/movie/${tmdbId}`, tmdbApiKey, { append_to_response: "videos,credits,release_dates" }));
+  if (response.status === 404) throw new Error(`TMDB has no movie with ID ${tmdbId}`);
+  if (!response.ok) throw new Error(`TMDB error ${response.status} for movie ${tmdbId}`);
+  return await response.json();
+};
+
+// A country can list several releases (theatrical, digital...); the first with a rating wins
+const findCertification = (movie: TmdbMovieDetails) => {
+  const country = movie.release_dates?.results.find((result) => result.iso_3166_1 === CERTIFICATION_COUNTRY);
+  return country?.release_dates.find((release) => release.certification.trim())?.certification.trim() ?? null;
+};
+
+const toSyncedFields = (movie: TmdbMovieDetails): SyncedFields => {
+  const trailer = movie.videos?.results.find((video) => video.type === "Trailer" && video.site === "YouTube");
+  return {
+    tmdb_id: movie.id,
+    title: movie.title,
+    description: movie.overview || null,
+    tagline: movie.tagline || null,
+    genre: (movie.genres ?? []).map((genre) => genre.name),
+    rating: movie.vote_average ? Math.round(movie.vote_average * 10) / 10 : null,
+    popularity: movie.popularity ? Math.round(movie.popularity * 1000) / 1000 : null,
+    duration_minutes: movie.runtime || null, // TMDB reports 0 when the runtime is unknown
+    release_year: movie.release_date ? new Date(movie.release_date).getFullYear() : null,
+    release_date: movie.release_date || null,
+    certification: findCertification(movie),
+    original_language: movie.original_language || null,
+    production_countries: (movie.production_countries ?? []).map((country) => country.iso_3166_1),
+    imdb_id: movie.imdb_id || null,
+    poster_url: imageUrl(movie.poster_path),
+    backdrop_url: imageUrl(movie.backdrop_path, "w1280"),
+    trailer_url: trailer ? `https://www.youtube.com/watch?v=${trailer.key}` : null,
+  };
+};
+
+// Matches by tmdb_id, falling back to title and year so rows imported before
+// tmdb_id existed are claimed and keep their watchlists, ratings and history
+const findExistingMovie = async (supabaseClient: SupabaseClient, fields: SyncedFields) => {
+  const columns = `id, sync_locked, ${SYNCED_FIELD_NAMES.join(", ")}`;
+  const { data: byTmdbId, error } = await supabaseClient
+    .from("movies")
+    .select(columns)
+    .eq("tmdb_id", fields.tmdb_id)
+    .maybeSingle();
+  if (error) throw new Error(`Database error: ${error.message}`);
+  if (byTmdbId) return byTmdbId as unknown as ExistingMovie;
+
+  let legacyQuery = supabaseClient
+    .from("movies")
+    .select(columns)
+    .is("tmdb_id", null)
+    .ilike("title", fields.title.replace(/[\\%_]/g, "\\$&"));
+  legacyQuery = fields.release_year === null
+    ? legacyQuery.is("release_year", null)
+    : legacyQuery.eq("release_year", fields.release_year);
+
+  const { data: legacy } = await legacyQuery.limit(1).maybeSingle();
+  return (legacy as unknown as ExistingMovie) ?? null;
+};
+
+const hasChanges = (existing: ExistingMovie, fields: SyncedFields) =>
+  SYNCED_FIELD_NAMES.some((name) => JSON.stringify(existing[name]) !== JSON.stringify(fields[name]));
+
+// Links every TMDB genre of the movie, in TMDB's order, and unlinks any it no longer has
+const syncGenres = async (supabaseClient: SupabaseClient, movieId: string, movie: TmdbMovieDetails) => {
+  const tmdbGenres = movie.genres ?? [];
+  let genreIds: string[] = [];
+
+  if (tmdbGenres.length > 0) {
+    const { data: genres, error } = await supabaseClient
+      .from("genres")
+      .upsert(tmdbGenres.map((genre) => ({ tmdb_genre_id: genre.id, name: genre.name })), { onConflict: "tmdb_genre_id" })
+      .select("id, tmdb_genre_id");
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    const idByTmdbId = new Map((genres ?? []).map((genre) => [genre.tmdb_genre_id, genre.id as string]));
+    genreIds = tmdbGenres.map((genre) => idByTmdbId.get(genre.id)).filter((id): id is string => !!id);
+
+    const { error: linkError } = await supabaseClient
+      .from("movie_genres")
+      .upsert(genreIds.map((genreId, position) => ({ movie_id: movieId, genre_id: genreId, position })), {
+        onConflict: "movie_id,genre_id",
+      });
+    if (linkError) throw new Error(`Database error: ${linkError.message}`);
+  }
+
+  let staleQuery = supabaseClient.from("movie_genres").delete().eq("movie_id", movieId);
+  if (genreIds.length > 0) staleQuery = staleQuery.not("genre_id", "in", `(${genreIds.join(",")})`);
+  const { error } = await staleQuery;
+  if (error) throw new Error(`Database error: ${error.message}`);
+};
+
+// Names and photos live on people, shared by every credit of that person
+const upsertPeople = async (
+  supabaseClient: SupabaseClient,
+  credits: { id: number; name: string; profile_path: string | null }[]
+) => {
+  // One row per person: someone can be both cast and crew on the same movie
+  const people = new Map(credits.map((credit) => [credit.id, {
+    tmdb_person_id: credit.id,
+    name: credit.name,
+    profile_picture_url: imageUrl(credit.profile_path),
+  }]));
+  if (people.size === 0) return;
+
+  const { error } = await supabaseClient
+    .from("people")
+    .upsert([...people.values()], { onConflict: "tmdb_person_id" });
+  if (error) throw new Error(`Database error: ${error.message}`);
+};
+
+// Upserts the top-billed cast and key crew, then drops people TMDB no longer credits
+const syncCredits = async (supabaseClient: SupabaseClient, movieId: string, movie: TmdbMovieDetails) => {
+  let castCount = 0;
+  let crewCount = 0;
+
+  // A details response without credits says nothing about who's in the film, so existing
+  // credits are only cleared out when TMDB actually sent a (possibly empty) list
+  const hasCredits = !!movie.credits;
+  const topCast = (movie.credits?.cast ?? []).slice(0, 10);
+  const keyCrew = (movie.credits?.crew ?? [])
+    .filter((crewMember) => KEY_CREW_JOBS.includes(crewMember.job))
+    .slice(0, 15); // Limit to 15 key crew members
+
+  await upsertPeople(supabaseClient, [...topCast, ...keyCrew]);
+
+  const castToUpsert = topCast.map((castMember, index) => ({
+    movie_id: movieId,
+    tmdb_person_id: castMember.id,
+    character_name: castMember.character,
+    order_position: index,
+  }));
+
+  if (castToUpsert.length > 0) {
+    const { error } = await supabaseClient
+      .from("cast_members")
+      .upsert(castToUpsert, { onConflict: "movie_id,tmdb_person_id" });
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    castCount = castToUpsert.length;
+  }
+
+  if (hasCredits) {
+    let staleCast = supabaseClient.from("cast_members").delete().eq("movie_id", movieId);
+    if (castToUpsert.length > 0) {
+      staleCast = staleCast.not("tmdb_person_id", "in", `(${castToUpsert.map((c) => c.tmdb_person_id).join(",")})`);
+    }
+    const { error } = await staleCast;
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
+
+  const crewToUpsert = keyCrew.map((crewMember) => ({
+    movie_id: movieId,
+    tmdb_person_id: crewMember.id,
+    job: crewMember.job,
+    department: crewMember.department,
+  }));
+
+  if (crewToUpsert.length > 0) {
+    const { error } = await supabaseClient
+      .from("crew_members")
+      .upsert(crewToUpsert, { onConflict: "movie_id,tmdb_person_id,job" });
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    crewCount = crewToUpsert.length;
+  }
+
+  if (hasCredits) {
+    // Someone can hold several jobs on a film, so a credit is stale when its
+    // person and job pair is gone, even if the person still has another job
+    const currentCredits = new Set(crewToUpsert.map((c) => `${c.tmdb_person_id}:${c.job}`));
+    const { data: existingCrew, error: existingError } = await supabaseClient
+      .from("crew_members")
+      .select("id, tmdb_person_id, job")
+      .eq("movie_id", movieId);
+    if (existingError) throw new Error(`Database error: ${existingError.message}`);
+
+    const staleIds = (existingCrew ?? [])
+      .filter((c) => !currentCredits.has(`${c.tmdb_person_id}:${c.job}`))
+      .map((c) => c.id);
+    if (staleIds.length > 0) {
+      const { error } = await supabaseClient.from("crew_members").delete().in("id", staleIds);
+      if (error) throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  return { cast: castCount, crew: crewCount };
+};
+
+// Inserts or updates one movie and its credits. Safe to repeat: an unchanged
+// movie is left alone unless refreshCredits is set, and a movie an editor has
+// locked is always left alone.
+export const syncMovie = async (
+  supabaseClient: SupabaseClient,
+  movie: TmdbMovieDetails,
+  refreshCredits = false
+): Promise<{ outcome: SyncOutcome; cast: number; crew: number }> => {
+  const fields = toSyncedFields(movie);
+  const { genre: _genre, ...columns } = fields;
+  const existing = await findExistingMovie(supabaseClient, fields);
+
+  if (existing?.sync_locked) return { outcome: "unchanged", cast: 0, crew: 0 };
+
+  let movieId: string;
+  let outcome: SyncOutcome;
+  if (!existing) {
+    const { data, error } = await supabaseClient
+      .from("movies")
+      .insert(columns)
+      .select("id")
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    movieId = data.id;
+    outcome = "inserted";
+  } else if (hasChanges(existing, fields)) {
+    const { error } = await supabaseClient.from("movies").update(columns).eq("id", existing.id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+    movieId = existing.id;
+    outcome = "updated";
+  } else {
+    if (!refreshCredits) return { outcome: "unchanged", cast: 0, crew: 0 };
+    movieId = existing.id;
+    outcome = "unchanged";
+  }
+
+  await syncGenres(supabaseClient, movieId, movie);
+  const counts = await syncCredits(supabaseClient, movieId, movie);
+  return { outcome, ...counts };
+};
@@ -0,0 +1,17 @@
+export type ImportJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export const ACTIVE_JOB_STATUSES: ImportJobStatus[] = ["pending", "running"];
+
+// Kicks off the next chunk of an import. The worker answers as soon as it has
+// queued the chunk, so this only waits for the hand-off, not the chunk itself.
+export const triggerImportWorker = async (jobId: string) => {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/process-import-job`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ jobId }),
+  });
+  if (!response.ok) throw new Error(`Failed to start import worker: ${response.status}`);
+};
@@ -0,0 +1,53 @@
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type AppRole = "admin" | "editor" | "support";
+
+export const APP_ROLES: AppRole[] = ["admin", "editor", "support"];
+
+// Thrown when the caller is signed in but lacks the role; functions map it to a 403
+export class ForbiddenError extends Error {
+  constructor(message = "Insufficient permissions") {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export const isAppRole = (value: unknown): value is AppRole =>
+  typeof value === "string" && (APP_ROLES as string[]).includes(value);
+
+// Resolves the caller from the request's bearer token
+export const getAuthenticatedUser = async (supabaseClient: SupabaseClient, req: Request): Promise<User> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new Error("No authorization header provided");
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabaseClient.auth.getUser(token);
+  if (error) throw new Error(`Authentication error: ${error.message}`);
+  if (!data.user) throw new Error("User not authenticated");
+  return data.user;
+};
+
+// Expects a service-role client so the lookup doesn't depend on the caller's RLS view
+export const getUserRoles = async (supabaseClient: SupabaseClient, userId: string): Promise<AppRole[]> => {
+  const { data, error } = await supabaseClient
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId);
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  return (data ?? []).map((row) => row.role as AppRole);
+};
+
+// Authenticates the caller and throws ForbiddenError unless they hold one of the allowed roles
+export const requireRole = async (
+  supabaseClient: SupabaseClient,
+  req: Request,
+  allowed: AppRole[]
+): Promise<{ user: User; roles: AppRole[] }> => {
+  const user = await getAuthenticatedUser(supabaseClient, req);
+  const roles = await getUserRoles(supabaseClient, user.id);
+  if (!roles.some((role) => allowed.includes(role))) {
+    throw new ForbiddenError(`Requires one of: ${allowed.join(", ")}`);
+  }
+  return { user, roles };
+};
@@ -0,0 +1,50 @@
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type Tier = "Basic" | "Premium";
+
+// Stripe subscription statuses that grant access to the catalog
+export const ENTITLED_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing"];
+
+export const isEntitled = (status: Stripe.Subscription.Status) => ENTITLED_STATUSES.includes(status);
+
+// Maps a subscription price to our tier via the plans table: by price ID first,
+// then by product ID so new prices on an existing product keep working.
+// Returns null for prices we don't know about rather than guessing from the amount.
+export const resolveTierFromPrice = async (
+  supabaseClient: SupabaseClient,
+  price: Stripe.Price
+): Promise<Tier | null> => {
+  const { data: byPrice } = await supabaseClient
+    .from("plans")
+    .select("tier")
+    .eq("stripe_price_id", price.id)
+    .maybeSingle();
+
+  if (byPrice) return byPrice.tier as Tier;
+
+  const productId = typeof price.product === "string" ? price.product : price.product?.id;
+  if (!productId) return null;
+
+  const { data: byProduct } = await supabaseClient
+    .from("plans")
+    .select("tier")
+    .eq("stripe_product_id", productId)
+    .limit(1)
+    .maybeSingle();
+
+  return (byProduct?.tier as Tier) ?? null;
+};
+
+// ISO timestamp of the trial end while a subscription is trialing, otherwise null
+export const trialEndOf = (subscription: Stripe.Subscription): string | null =>
+  subscription.status === "trialing" && subscription.trial_end
+    ? new Date(subscription.trial_end * 1000).toISOString()
+    : null;
+
+// Basic titles are open to every subscriber; Premium titles need a Premium subscription
+export const hasTierAccess = (subscriberTier: string | null, movieTier: string) => {
+  if (!subscriberTier) return false;
+  if (movieTier === "Basic") return true;
+  return subscriberTier === "Premium";
+};
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getAuthenticatedUser, getUserRoles } from "../_shared/roles.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,47 +17,34 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Service role so roles are read from user_roles regardless of the caller's RLS view
   const supabaseClient = createClient(
     Deno.env.get("SUPABASE_URL") ?? "",
-    Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
   );
 
   try {
     logStep("Function started");
 
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) throw new Error("No authorization header provided");
-
-    const token = authHeader.replace("Bearer ", "");
-    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
-    if (userError) throw new Error(`Authentication error: ${userError.message}`);
-    
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated or email not available");
-    
+    const user = await getAuthenticatedUser(supabaseClient, req);
     logStep("User authenticated", { userId: user.id, email: user.email });
 
-    // Get admin emails from environment secrets
-    const testBasicEmail = Deno.env.get("TEST_BASIC_EMAIL");
-    const testPremiumEmail = Deno.env.get("TEST_PREMIUM_EMAIL");
-    
-    logStep("Retrieved admin emails", { testBasicEmail, testPremiumEmail });
+    const roles = await getUserRoles(supabaseClient, user.id);
+    const isAdmin = roles.includes("admin");
 
-    // Check if current user is an admin
-    const isAdmin = user.email === testBasicEmail || user.email === testPremiumEmail;
-    
-    logStep("Admin check result", { userEmail: user.email, isAdmin });
+    logStep("Role check result", { userId: user.id, roles, isAdmin });
 
-    return new Response(JSON.stringify({ isAdmin }), {
+    return new Response(JSON.stringify({ isAdmin, roles }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logStep("ERROR in check-admin-status", { message: errorMessage });
-    return new Response(JSON.stringify({ error: errorMessage, isAdmin: false }), {
+    return new Response(JSON.stringify({ error: errorMessage, isAdmin: false, roles: [] }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 500,
     });
   }
-});
\ No newline at end of file
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@14.21.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isEntitled, resolveTierFromPrice, trialEndOf } from "../_shared/subscription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -52,9 +53,13 @@ serve(async (req) => {
         email: user.email,
         user_id: user.id,
         stripe_customer_id: null,
+        stripe_subscription_id: null,
         subscribed: false,
         subscription_tier: null,
         subscription_end: null,
+        subscription_status: null,
+        trial_end: null,
+        stripe_event_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }, { onConflict: 'email' });
       return new Response(JSON.stringify({ subscribed: false }), {
@@ -66,32 +71,33 @@ serve(async (req) => {
     const customerId = customers.data[0].id;
     logStep("Found Stripe customer", { customerId });
 
+    // Trialing subscriptions are entitled too, so look across statuses rather than only "active"
     const subscriptions = await stripe.subscriptions.list({
       customer: customerId,
-      status: "active",
-      limit: 1,
+      status: "all",
+      limit: 10,
     });
-    const hasActiveSub = subscriptions.data.length > 0;
+    const subscription = subscriptions.data.find((sub) => isEntitled(sub.status));
+    const hasActiveSub = !!subscription;
     let subscriptionTier = null;
     let subscriptionEnd = null;
+    let subscriptionId = null;
+    let subscriptionStatus = null;
+    let trialEnd = null;
 
-    if (hasActiveSub) {
-      const subscription = subscriptions.data[0];
+    if (subscription) {
+      subscriptionId = subscription.id;
+      subscriptionStatus = subscription.status;
       subscriptionEnd = new Date(subscription.current_period_end * 1000).toISOString();
-      logStep("Active subscription found", { subscriptionId: subscription.id, endDate: subscriptionEnd });
+      trialEnd = trialEndOf(subscription);
+      logStep("Active subscription found", { subscriptionId: subscription.id, status: subscriptionStatus, endDate: subscriptionEnd, trialEnd });
       
-      const priceId = subscription.items.data[0].price.id;
-      const price = await stripe.prices.retrieve(priceId);
-      const amount = price.unit_amount || 0;
-      
-      // Convert from pence to pounds for UK pricing
-      const amountInPounds = amount / 100;
-      if (amountInPounds <= 10) {
-        subscriptionTier = "Basic";
-      } else {
-        subscriptionTier = "Premium";
+      const price = subscription.items.data[0].price;
+      subscriptionTier = await resolveTierFromPrice(supabaseClient, price);
+      if (!subscriptionTier) {
+        logStep("WARNING: price is not mapped to a plan", { priceId: price.id, productId: price.product });
       }
-      logStep("Determined subscription tier", { priceId, amount, amountInPounds, subscriptionTier });
+      logStep("Determined subscription tier", { priceId: price.id, subscriptionTier });
     } else {
       logStep("No active subscription found");
     }
@@ -100,9 +106,14 @@ serve(async (req) => {
       email: user.email,
       user_id: user.id,
       stripe_customer_id: customerId,
+      stripe_subscription_id: subscriptionId,
       subscribed: hasActiveSub,
       subscription_tier: subscriptionTier,
       subscription_end: subscriptionEnd,
+      subscription_status: subscriptionStatus,
+      trial_end: trialEnd,
+      // Read live from Stripe, so anything older that the webhook still has queued is stale
+      stripe_event_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }, { onConflict: 'email' });
 
@@ -110,7 +121,9 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       subscribed: hasActiveSub,
       subscription_tier: subscriptionTier,
-      subscription_end: subscriptionEnd
+      subscription_end: subscriptionEnd,
+      subscription_status: subscriptionStatus,
+      trial_end: trialEnd
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
@@ -25,11 +25,19 @@ serve(async (req) => {
   try {
     logStep("Function started");
     
-    const { tier } = await req.json();
-    if (!tier || !['Basic', 'Premium'].includes(tier)) {
-      throw new Error("Invalid subscription tier");
-    }
-    logStep("Subscription tier validated", { tier });
+    const { priceId } = await req.json();
+    if (!priceId) throw new Error("No plan selected");
+
+    const { data: plan, error: planError } = await supabaseClient
+      .from("plans")
+      .select("tier, stripe_price_id, trial_period_days")
+      .eq("stripe_price_id", priceId)
+      .eq("active", true)
+      .maybeSingle();
+    if (planError) throw new Error(`Database error: ${planError.message}`);
+    if (!plan) throw new Error("Invalid subscription plan");
+    const tier = plan.tier;
+    logStep("Plan validated", { priceId, tier });
 
     const authHeader = req.headers.get("Authorization")!;
     const token = authHeader.replace("Bearer ", "");
@@ -48,26 +56,31 @@ serve(async (req) => {
       logStep("Creating new customer");
     }
 
-    // Pricing in pence (UK)
-    const pricing = {
-      Basic: 1000, // £10.00
-      Premium: 1500, // £15.00
-    };
+    // Trials are for first-time subscribers only
+    let trialPeriodDays: number | undefined;
+    if (plan.trial_period_days > 0) {
+      const previousSubscriptions = customerId
+        ? await stripe.subscriptions.list({ customer: customerId, status: "all", limit: 1 })
+        : null;
+      if (!previousSubscriptions?.data.length) {
+        trialPeriodDays = plan.trial_period_days;
+      }
+    }
+    logStep("Trial eligibility checked", { trialPeriodDays: trialPeriodDays ?? 0 });
 
     const session = await stripe.checkout.sessions.create({
       customer: customerId,
       customer_email: customerId ? undefined : user.email,
+      // Lets the stripe-webhook function tie the session back to this user and tier
+      client_reference_id: user.id,
+      metadata: { user_id: user.id, tier },
+      subscription_data: {
+        metadata: { user_id: user.id, tier },
+        trial_period_days: trialPeriodDays,
+      },
       line_items: [
         {
-          price_data: {
-            currency: "gbp",
-            product_data: { 
-              name: `${tier} Subscription`,
-              description: `Monthly ${tier} plan for movie streaming`
-            },
-            unit_amount: pricing[tier as keyof typeof pricing],
-            recurring: { interval: "month" },
-          },
+          price: plan.stripe_price_id,
           quantity: 1,
         },
       ],
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { hasTierAccess } from "../_shared/subscription.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[GET-PLAYBACK-URL] ${step}${detailsStr}`);
+};
+
+// Signed URLs must outlive a full viewing, pauses included, but no more than that
+const MIN_URL_TTL_SECONDS = 60 * 60;
+const URL_TTL_BUFFER_SECONDS = 30 * 60;
+
+const respond = (body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status: 200,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    logStep("Function started");
+
+    const { movieId } = await req.json();
+    if (!movieId) throw new Error("No movie specified");
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+    const user = userData.user;
+    if (!user?.email) throw new Error("User not authenticated or email not available");
+    logStep("User authenticated", { userId: user.id, movieId });
+
+    const { data: movie, error: movieError } = await supabaseClient
+      .from("movies")
+      .select("id, subscription_tier, duration_minutes, certification")
+      .eq("id", movieId)
+      .maybeSingle();
+    if (movieError) throw new Error(`Database error: ${movieError.message}`);
+    if (!movie) throw new Error("Movie not found");
+
+    const { data: subscriber } = await supabaseClient
+      .from("subscribers")
+      .select("subscribed, subscription_tier")
+      .eq("email", user.email)
+      .maybeSingle();
+
+    const subscriberTier = subscriber?.subscribed ? subscriber.subscription_tier : null;
+    if (!hasTierAccess(subscriberTier, movie.subscription_tier)) {
+      logStep("Access denied", { movieTier: movie.subscription_tier, subscriberTier });
+      return respond({ url: null, reason: "subscription_required", required_tier: movie.subscription_tier });
+    }
+
+    // Parental controls and stream slots follow the caller's device (its auth session), which only
+    // the caller's own token identifies, so those checks run as the caller rather than the service role
+    const callerClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } }, auth: { persistSession: false } }
+    );
+
+    // Parental controls are checked here too, so a restricted title can't be streamed by skipping the details page
+    const { data: canWatch, error: maturityError } = await callerClient
+      .rpc("viewer_can_watch", { _movie_id: movie.id });
+    if (maturityError) throw new Error(`Database error: ${maturityError.message}`);
+    if (!canWatch) {
+      logStep("Blocked by parental controls", { movieId });
+      return respond({ url: null, reason: "maturity_restricted", certification: movie.certification });
+    }
+
+    const { data: video } = await supabaseClient
+      .from("movie_videos")
+      .select("video_url")
+      .eq("movie_id", movie.id)
+      .maybeSingle();
+
+    if (!video) {
+      logStep("No video source for movie", { movieId });
+      return respond({ url: null, reason: "unavailable" });
+    }
+
+    // Claim a stream slot last, once nothing else can refuse playback
+    const { data: started, error: streamError } = await callerClient
+      .rpc("start_stream", { _movie_id: movie.id });
+    if (streamError) throw new Error(`Database error: ${streamError.message}`);
+    if (!started) {
+      logStep("Stream limit reached", { movieId, subscriberTier });
+      return respond({ url: null, reason: "stream_limit" });
+    }
+
+    // Externally hosted sources can't be signed here and are returned as stored
+    if (/^https?:\/\//.test(video.video_url)) {
+      logStep("Returning external video URL", { movieId });
+      return respond({ url: video.video_url, expires_at: null });
+    }
+
+    const ttlSeconds = Math.max(MIN_URL_TTL_SECONDS, (movie.duration_minutes || 0) * 60 + URL_TTL_BUFFER_SECONDS);
+    const { data: signed, error: signError } = await supabaseClient.storage
+      .from("videos")
+      .createSignedUrl(video.video_url, ttlSeconds);
+    if (signError) throw new Error(`Storage error: ${signError.message}`);
+
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+    logStep("Signed playback URL issued", { movieId, expiresAt });
+
+    return respond({ url: signed.signedUrl, expires_at: expiresAt });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in get-playback-url", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
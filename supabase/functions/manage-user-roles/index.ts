@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { ForbiddenError, isAppRole, requireRole } from "../_shared/roles.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[MANAGE-USER-ROLES] ${step}${detailsStr}`);
+};
+
+const USERS_PAGE_SIZE = 1000;
+
+// auth.users isn't exposed through PostgREST, so grants by email page through the admin API
+const findUserIdByEmail = async (supabaseClient: SupabaseClient, email: string) => {
+  const target = email.trim().toLowerCase();
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabaseClient.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+    if (error) throw new Error(`Auth error: ${error.message}`);
+
+    const match = data.users.find((u) => u.email?.toLowerCase() === target);
+    if (match) return match.id;
+    if (data.users.length < USERS_PAGE_SIZE) return null;
+  }
+};
+
+const listRoles = async (supabaseClient: SupabaseClient) => {
+  const { data, error } = await supabaseClient
+    .from("user_roles")
+    .select("user_id, role, created_at")
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Database error: ${error.message}`);
+
+  const emails: Record<string, string | null> = {};
+  for (const userId of new Set((data ?? []).map((row) => row.user_id as string))) {
+    const { data: userData } = await supabaseClient.auth.admin.getUserById(userId);
+    emails[userId] = userData.user?.email ?? null;
+  }
+
+  return (data ?? []).map((row) => ({ ...row, email: emails[row.user_id] }));
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    logStep("Function started");
+
+    const { user } = await requireRole(supabaseClient, req, ["admin"]);
+    logStep("Admin verified", { userId: user.id });
+
+    const { action, email, userId, role } = await req.json();
+
+    if (action === "grant") {
+      if (!email) throw new Error("No email specified");
+      if (!isAppRole(role)) throw new Error(`Unknown role: ${role}`);
+
+      const targetUserId = await findUserIdByEmail(supabaseClient, email);
+      if (!targetUserId) throw new Error(`No account found for ${email}`);
+
+      const { error } = await supabaseClient.from("user_roles").upsert({
+        user_id: targetUserId,
+        role,
+        granted_by: user.id,
+      }, { onConflict: "user_id,role", ignoreDuplicates: true });
+      if (error) throw new Error(`Database error: ${error.message}`);
+      logStep("Role granted", { targetUserId, role });
+    } else if (action === "revoke") {
+      if (!userId) throw new Error("No user specified");
+      if (!isAppRole(role)) throw new Error(`Unknown role: ${role}`);
+      // Stops an admin from locking everyone, themselves included, out of this screen
+      if (userId === user.id && role === "admin") throw new Error("You can't revoke your own admin role");
+
+      const { error } = await supabaseClient
+        .from("user_roles")
+        .delete()
+        .eq("user_id", userId)
+        .eq("role", role);
+      if (error) throw new Error(`Database error: ${error.message}`);
+      logStep("Role revoked", { targetUserId: userId, role });
+    } else if (action !== "list") {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    const roles = await listRoles(supabaseClient);
+    return new Response(JSON.stringify({ roles }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in manage-user-roles", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: error instanceof ForbiddenError ? 403 : 500,
+    });
+  }
+});
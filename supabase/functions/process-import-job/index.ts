@@ -0,0 +1,180 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { delay, discoverTmdbIds, fetchMovieDetails, SyncMode, syncMovie } from "../_shared/catalog-sync.ts";
+import { ACTIVE_JOB_STATUSES, triggerImportWorker } from "../_shared/import-jobs.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[PROCESS-IMPORT-JOB] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+// Sized to finish well inside the edge runtime's wall-clock limit
+const CHUNK_SIZE = 25;
+const LOCK_SECONDS = 120;
+const MAX_STORED_ERRORS = 50;
+
+interface ImportJob {
+  id: string;
+  mode: SyncMode;
+  tmdb_id: number | null;
+  tmdb_ids: number[] | null;
+  cursor: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  cast_count: number;
+  crew_count: number;
+  errors: { tmdb_id: number; message: string; at: string }[];
+  started_at: string | null;
+}
+
+const processChunk = async (supabaseClient: SupabaseClient, job: ImportJob) => {
+  try {
+    const tmdbApiKey = Deno.env.get("TMDB_API_KEY");
+    if (!tmdbApiKey) throw new Error("TMDB_API_KEY is not set");
+
+    let tmdbIds = job.tmdb_ids;
+    if (!tmdbIds) {
+      tmdbIds = await discoverTmdbIds(tmdbApiKey, job.mode, job.tmdb_id);
+      const { error } = await supabaseClient
+        .from("import_jobs")
+        .update({ tmdb_ids: tmdbIds, total: tmdbIds.length })
+        .eq("id", job.id);
+      if (error) throw new Error(`Database error: ${error.message}`);
+      logStep("Discovered movies", { jobId: job.id, total: tmdbIds.length });
+    }
+
+    const chunk = tmdbIds.slice(job.cursor, job.cursor + CHUNK_SIZE);
+    const progress = {
+      inserted: job.inserted,
+      updated: job.updated,
+      unchanged: job.unchanged,
+      failed: job.failed,
+      cast_count: job.cast_count,
+      crew_count: job.crew_count,
+    };
+    const errors = [...job.errors];
+
+    for (const tmdbId of chunk) {
+      try {
+        const details = await fetchMovieDetails(tmdbApiKey, tmdbId);
+        // A single-title refresh is an explicit request, so its credits are refreshed regardless
+        const result = await syncMovie(supabaseClient, details, job.mode === "single");
+        progress[result.outcome]++;
+        progress.cast_count += result.cast;
+        progress.crew_count += result.crew;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        progress.failed++;
+        errors.push({ tmdb_id: tmdbId, message, at: new Date().toISOString() });
+        logStep("Movie failed", { jobId: job.id, tmdbId, message });
+      }
+      // Add delay to respect rate limits
+      await delay(150);
+    }
+
+    const cursor = job.cursor + chunk.length;
+    const done = cursor >= tmdbIds.length;
+
+    // Filtering on status means a cancel that landed mid-chunk wins over this write
+    const { data: saved, error } = await supabaseClient
+      .from("import_jobs")
+      .update({
+        ...progress,
+        cursor,
+        errors: errors.slice(-MAX_STORED_ERRORS),
+        status: done ? "completed" : "running",
+        locked_until: null,
+        finished_at: done ? new Date().toISOString() : null,
+      })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .select("id")
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    if (!saved) {
+      logStep("Job was cancelled mid-chunk", { jobId: job.id, cursor });
+      return;
+    }
+
+    logStep(done ? "Job completed" : "Chunk processed", { jobId: job.id, cursor, total: tmdbIds.length, ...progress });
+    if (!done) await triggerImportWorker(job.id);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR processing chunk", { jobId: job.id, message: errorMessage });
+    await supabaseClient
+      .from("import_jobs")
+      .update({
+        status: "failed",
+        last_error: errorMessage,
+        locked_until: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("status", "running");
+  }
+};
+
+serve(async (req) => {
+  try {
+    logStep("Function started");
+
+    // Only other edge functions call this, using the service role key
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { jobId } = await req.json();
+    if (!jobId) return jsonResponse({ error: "No job specified" }, 400);
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    // Claim the job so overlapping triggers can't process the same chunk twice
+    const now = new Date();
+    const { data: job, error } = await supabaseClient
+      .from("import_jobs")
+      .update({
+        status: "running",
+        locked_until: new Date(now.getTime() + LOCK_SECONDS * 1000).toISOString(),
+      })
+      .eq("id", jobId)
+      .in("status", ACTIVE_JOB_STATUSES)
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    if (!job) {
+      logStep("Job not claimable", { jobId });
+      return jsonResponse({ claimed: false }, 200);
+    }
+
+    if (!job.started_at) {
+      await supabaseClient.from("import_jobs").update({ started_at: now.toISOString() }).eq("id", jobId);
+    }
+
+    logStep("Job claimed", { jobId, mode: job.mode, cursor: job.cursor });
+    EdgeRuntime.waitUntil(processChunk(supabaseClient, job as ImportJob));
+
+    return jsonResponse({ claimed: true }, 202);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in process-import-job", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,48 @@
+// Replays a cancellation followed by a stale update, as Stripe can when it retries a delivery,
+// and checks the test@example.com subscriber stays cancelled.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test SUPABASE_SERVICE_ROLE_KEY=... deno run --allow-read --allow-env --allow-net \
+//     supabase/functions/stripe-webhook/fixtures/out-of-order.ts
+//
+// customer.subscription.updated.json was created before customer.subscription.deleted.json,
+// so it must be skipped when it arrives second. SUPABASE_URL defaults to the local stack.
+
+import { sendFixture } from "./send.ts";
+
+const FIXTURE_EMAIL = "test@example.com";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "http://127.0.0.1:54321";
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+if (!serviceRoleKey) {
+  console.error("SUPABASE_SERVICE_ROLE_KEY is needed to reset and read the fixture subscriber");
+  Deno.exit(1);
+}
+
+const subscriberUrl = `${supabaseUrl}/rest/v1/subscribers?email=eq.${encodeURIComponent(FIXTURE_EMAIL)}`;
+const headers = { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` };
+
+const fail = (message: string) => {
+  console.error(`FAIL: ${message}`);
+  Deno.exit(1);
+};
+
+// Start from no row, so an earlier run can't make this pass
+const reset = await fetch(subscriberUrl, { method: "DELETE", headers });
+if (!reset.ok) fail(`couldn't reset the fixture subscriber: ${reset.status} ${await reset.text()}`);
+
+// The checkout creates the row the subscription events find the customer's email through
+for (const fixtureName of ["checkout.session.completed", "customer.subscription.deleted", "customer.subscription.updated"]) {
+  const { status, body } = await sendFixture(fixtureName);
+  console.log(fixtureName, status, body);
+  if (status !== 200) fail(`${fixtureName} was not accepted`);
+}
+
+const response = await fetch(`${subscriberUrl}&select=subscribed,subscription_status,stripe_event_at`, { headers });
+if (!response.ok) fail(`couldn't read the fixture subscriber: ${response.status} ${await response.text()}`);
+const [subscriber] = await response.json();
+
+if (!subscriber) fail("no subscriber row was written");
+if (subscriber.subscribed) fail("the stale update gave the cancelled customer access again");
+if (subscriber.subscription_status !== "canceled") fail(`expected status canceled, got ${subscriber.subscription_status}`);
+
+console.log("PASS: the stale update was skipped", subscriber);
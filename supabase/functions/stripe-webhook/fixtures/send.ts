@@ -0,0 +1,58 @@
+// Signs a fixture the same way Stripe does and posts it to a locally served stripe-webhook function.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test deno run --allow-read --allow-env --allow-net \
+//     supabase/functions/stripe-webhook/fixtures/send.ts checkout.session.completed
+//
+// Set WEBHOOK_URL to target somewhere other than the default `supabase functions serve` address.
+
+const sign = async (secret: string, timestamp: number, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signatureBytes = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${payload}`));
+  return Array.from(new Uint8Array(signatureBytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export const sendFixture = async (fixtureName: string) => {
+  const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!secret) throw new Error("STRIPE_WEBHOOK_SECRET must match the secret the function is served with");
+
+  const url = Deno.env.get("WEBHOOK_URL") ?? "http://127.0.0.1:54321/functions/v1/stripe-webhook";
+  const payload = await Deno.readTextFile(new URL(`./${fixtureName}.json`, import.meta.url));
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await sign(secret, timestamp, payload);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": `t=${timestamp},v1=${signature}`,
+    },
+    body: payload,
+  });
+
+  return { status: response.status, body: await response.text() };
+};
+
+if (import.meta.main) {
+  const fixtureName = Deno.args[0];
+  if (!fixtureName) {
+    console.error("Usage: send.ts <fixture name, e.g. customer.subscription.updated>");
+    Deno.exit(1);
+  }
+
+  try {
+    const { status, body } = await sendFixture(fixtureName);
+    console.log(status, body);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
+}
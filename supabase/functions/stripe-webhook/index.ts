@@ -0,0 +1,195 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isEntitled, resolveTierFromPrice, trialEndOf } from "../_shared/subscription.ts";
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[STRIPE-WEBHOOK] ${step}${detailsStr}`);
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") ?? "", { apiVersion: "2023-10-16" });
+// Deno has no Node crypto, so signatures are verified with WebCrypto
+const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+const customerIdOf = (customer: string | Stripe.Customer | Stripe.DeletedCustomer | null) =>
+  typeof customer === "string" ? customer : customer?.id ?? null;
+
+// Finds the email our subscribers row is keyed on, preferring what we already stored
+const findSubscriberEmail = async (supabaseClient: SupabaseClient, customerId: string) => {
+  const { data } = await supabaseClient
+    .from("subscribers")
+    .select("email")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+
+  if (data?.email) return data.email as string;
+
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted || !customer.email) return null;
+  return customer.email;
+};
+
+// Upserts return no row when skip_stale_subscriber_update dropped the write as older than what's stored
+const logSkippedIfStale = (written: unknown[] | null, details: Record<string, unknown>) => {
+  if (written?.length) return false;
+  logStep("Skipped stale event", details);
+  return true;
+};
+
+const handleCheckoutCompleted = async (
+  supabaseClient: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  eventAt: string
+) => {
+  if (session.mode !== "subscription") {
+    logStep("Ignoring non-subscription checkout", { sessionId: session.id });
+    return;
+  }
+
+  const email = session.customer_details?.email ?? session.customer_email;
+  if (!email) throw new Error(`Checkout session ${session.id} has no customer email`);
+
+  const { data, error } = await supabaseClient.from("subscribers").upsert({
+    email,
+    user_id: session.client_reference_id ?? session.metadata?.user_id ?? null,
+    stripe_customer_id: customerIdOf(session.customer),
+    stripe_subscription_id: typeof session.subscription === "string" ? session.subscription : session.subscription?.id ?? null,
+    subscribed: true,
+    subscription_tier: session.metadata?.tier ?? null,
+    // Status (active vs trialing) arrives with the customer.subscription.created event
+    stripe_event_at: eventAt,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'email' }).select("email");
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  if (logSkippedIfStale(data, { sessionId: session.id, eventAt })) return;
+  logStep("Recorded completed checkout", { sessionId: session.id, email });
+};
+
+const handleSubscriptionChange = async (
+  supabaseClient: SupabaseClient,
+  subscription: Stripe.Subscription,
+  deleted: boolean,
+  eventAt: string
+) => {
+  const customerId = customerIdOf(subscription.customer);
+  if (!customerId) throw new Error(`Subscription ${subscription.id} has no customer`);
+
+  const email = await findSubscriberEmail(supabaseClient, customerId);
+  if (!email) throw new Error(`No email found for customer ${customerId}`);
+
+  const subscribed = !deleted && isEntitled(subscription.status);
+  const price = subscription.items.data[0]?.price;
+  // The price is authoritative: plan changes made in the customer portal don't update checkout metadata
+  let subscriptionTier: string | null = null;
+  if (subscribed) {
+    subscriptionTier = price ? await resolveTierFromPrice(supabaseClient, price) : null;
+    if (!subscriptionTier) {
+      logStep("WARNING: price is not mapped to a plan", { priceId: price?.id });
+      subscriptionTier = subscription.metadata?.tier ?? null;
+    }
+  }
+
+  const { data, error } = await supabaseClient.from("subscribers").upsert({
+    email,
+    stripe_customer_id: customerId,
+    stripe_subscription_id: subscription.id,
+    subscribed,
+    subscription_tier: subscriptionTier,
+    subscription_end: subscribed ? new Date(subscription.current_period_end * 1000).toISOString() : null,
+    subscription_status: deleted ? "canceled" : subscription.status,
+    trial_end: deleted ? null : trialEndOf(subscription),
+    stripe_event_at: eventAt,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'email' }).select("email");
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  if (logSkippedIfStale(data, { subscriptionId: subscription.id, status: subscription.status, eventAt })) return;
+  logStep("Synced subscription", { subscriptionId: subscription.id, status: subscription.status, subscribed, subscriptionTier });
+};
+
+const handlePaymentFailed = async (supabaseClient: SupabaseClient, invoice: Stripe.Invoice, eventAt: string) => {
+  const customerId = customerIdOf(invoice.customer);
+  if (!customerId) throw new Error(`Invoice ${invoice.id} has no customer`);
+
+  // Access is kept while Stripe retries; the subscription.updated/deleted events that follow settle entitlement
+  const { data, error } = await supabaseClient
+    .from("subscribers")
+    .update({ subscription_status: "past_due", stripe_event_at: eventAt, updated_at: new Date().toISOString() })
+    .eq("stripe_customer_id", customerId)
+    .select("email");
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  if (!data?.length) {
+    logStep("No subscriber updated: unknown customer or stale event", { invoiceId: invoice.id, customerId, eventAt });
+    return;
+  }
+  logStep("Flagged failed payment", { invoiceId: invoice.id, customerId });
+};
+
+serve(async (req) => {
+  try {
+    logStep("Function started");
+
+    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    if (!webhookSecret) throw new Error("STRIPE_WEBHOOK_SECRET is not set");
+
+    const signature = req.headers.get("stripe-signature");
+    if (!signature) {
+      logStep("Missing stripe-signature header");
+      return jsonResponse({ error: "Missing stripe-signature header" }, 400);
+    }
+
+    const body = await req.text();
+    let event: Stripe.Event;
+    try {
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret, undefined, cryptoProvider);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logStep("Signature verification failed", { message: errorMessage });
+      return jsonResponse({ error: `Webhook signature verification failed: ${errorMessage}` }, 400);
+    }
+    logStep("Event verified", { id: event.id, type: event.type });
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Stripe's own timestamp, so events can be ordered however late they're delivered
+    const eventAt = new Date(event.created * 1000).toISOString();
+
+    switch (event.type) {
+      case "checkout.session.completed":
+        await handleCheckoutCompleted(supabaseClient, event.data.object as Stripe.Checkout.Session, eventAt);
+        break;
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+        await handleSubscriptionChange(supabaseClient, event.data.object as Stripe.Subscription, false, eventAt);
+        break;
+      case "customer.subscription.deleted":
+        await handleSubscriptionChange(supabaseClient, event.data.object as Stripe.Subscription, true, eventAt);
+        break;
+      case "invoice.payment_failed":
+        await handlePaymentFailed(supabaseClient, event.data.object as Stripe.Invoice, eventAt);
+        break;
+      default:
+        logStep("Unhandled event type", { type: event.type });
+    }
+
+    return jsonResponse({ received: true }, 200);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in stripe-webhook", { message: errorMessage });
+    // A 500 tells Stripe to retry the delivery
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
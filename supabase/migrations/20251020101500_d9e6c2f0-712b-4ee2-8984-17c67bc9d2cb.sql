@@ -0,0 +1,46 @@
+-- Track the Stripe subscription behind each subscriber row so webhook events can be matched to it
+ALTER TABLE public.subscribers
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+  ADD COLUMN IF NOT EXISTS subscription_status TEXT,
+  -- When the Stripe state this row reflects was current: the webhook event's created time,
+  -- or the moment check-subscription read it live from Stripe
+  ADD COLUMN IF NOT EXISTS stripe_event_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_subscribers_stripe_customer_id ON public.subscribers(stripe_customer_id);
+CREATE INDEX IF NOT EXISTS idx_subscribers_user_id ON public.subscribers(user_id);
+
+-- The client now reads subscription state straight from this table, so it must not be able to write it.
+-- Edge functions use the service role key, which bypasses RLS.
+DROP POLICY IF EXISTS "Edge functions can update subscriptions" ON public.subscribers;
+DROP POLICY IF EXISTS "Edge functions can insert subscriptions" ON public.subscribers;
+DROP POLICY IF EXISTS "update_own_subscription" ON public.subscribers;
+DROP POLICY IF EXISTS "insert_subscription" ON public.subscribers;
+
+-- Stripe doesn't deliver events in order, and retries can arrive long after later events.
+-- Writes carrying older Stripe state than the row already has are dropped, so a late
+-- checkout.session.completed or customer.subscription.updated can't re-open a cancelled subscription.
+CREATE OR REPLACE FUNCTION public.skip_stale_subscriber_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stripe_event_at < OLD.stripe_event_at THEN
+    RETURN NULL;
+  END IF;
+
+  -- A cancelled subscription never comes back, so nothing for it (even from the same second) re-opens it
+  IF OLD.subscription_status = 'canceled'
+     AND NEW.stripe_subscription_id = OLD.stripe_subscription_id
+     AND (NEW.subscribed OR NEW.subscription_status IS DISTINCT FROM 'canceled') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS skip_stale_subscriber_update ON public.subscribers;
+CREATE TRIGGER skip_stale_subscriber_update
+  BEFORE UPDATE ON public.subscribers
+  FOR EACH ROW EXECUTE FUNCTION public.skip_stale_subscriber_update();
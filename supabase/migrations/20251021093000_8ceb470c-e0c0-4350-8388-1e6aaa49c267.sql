@@ -0,0 +1,39 @@
+-- Subscription plans. Each row maps one Stripe price to a tier so tier detection
+-- never depends on the amount charged.
+CREATE TABLE public.plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tier TEXT NOT NULL CHECK (tier IN ('Basic', 'Premium')),
+  name TEXT NOT NULL,
+  description TEXT,
+  stripe_price_id TEXT NOT NULL UNIQUE,
+  stripe_product_id TEXT,
+  billing_interval TEXT NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('month', 'year')),
+  currency TEXT NOT NULL DEFAULT 'gbp',
+  amount INTEGER NOT NULL, -- In the currency's minor unit (pence, cents)
+  features TEXT[] NOT NULL DEFAULT '{}',
+  popular BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_plans_stripe_product_id ON public.plans(stripe_product_id);
+
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+
+-- Plans are public so the pricing page can render them; only the service role can change them
+CREATE POLICY "Anyone can view active plans" ON public.plans
+  FOR SELECT USING (active = true);
+
+CREATE TRIGGER update_plans_updated_at
+  BEFORE UPDATE ON public.plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starter plans matching the previous hard-coded pricing.
+-- Replace the price/product IDs with the ones from your Stripe dashboard.
+INSERT INTO public.plans (tier, name, description, stripe_price_id, stripe_product_id, billing_interval, currency, amount, features, popular, sort_order) VALUES
+('Basic', 'Basic', 'Perfect for casual viewers', 'price_basic_monthly_gbp', 'prod_basic', 'month', 'gbp', 1000,
+  ARRAY['Access to Basic movie library', 'HD streaming quality', 'Watch on 1 device', 'Standard support'], false, 1),
+('Premium', 'Premium', 'Best for movie enthusiasts', 'price_premium_monthly_gbp', 'prod_premium', 'month', 'gbp', 1500,
+  ARRAY['Access to ALL movies including Premium content', '4K Ultra HD streaming', 'Watch on up to 4 devices', 'Priority support', 'Early access to new releases'], true, 2);
@@ -0,0 +1,25 @@
+-- One active plan per tier, billing interval and currency so the pricing page can pick
+-- exactly one card for whatever the visitor selects
+CREATE UNIQUE INDEX idx_plans_active_tier_interval_currency
+  ON public.plans(tier, billing_interval, currency)
+  WHERE active = true;
+
+-- Annual plans and EUR/USD pricing.
+-- Replace the price IDs with the ones from your Stripe dashboard.
+INSERT INTO public.plans (tier, name, description, stripe_price_id, stripe_product_id, billing_interval, currency, amount, features, popular, sort_order)
+SELECT p.tier, p.name, p.description, v.stripe_price_id, p.stripe_product_id, v.billing_interval, v.currency, v.amount, p.features, p.popular, p.sort_order
+FROM public.plans p
+JOIN (VALUES
+  ('Basic',   'price_basic_yearly_gbp',     'year',  'gbp', 10000),
+  ('Premium', 'price_premium_yearly_gbp',   'year',  'gbp', 15000),
+  ('Basic',   'price_basic_monthly_eur',    'month', 'eur', 1200),
+  ('Premium', 'price_premium_monthly_eur',  'month', 'eur', 1800),
+  ('Basic',   'price_basic_yearly_eur',     'year',  'eur', 12000),
+  ('Premium', 'price_premium_yearly_eur',   'year',  'eur', 18000),
+  ('Basic',   'price_basic_monthly_usd',    'month', 'usd', 1300),
+  ('Premium', 'price_premium_monthly_usd',  'month', 'usd', 1900),
+  ('Basic',   'price_basic_yearly_usd',     'year',  'usd', 13000),
+  ('Premium', 'price_premium_yearly_usd',   'year',  'usd', 19000)
+) AS v(tier, stripe_price_id, billing_interval, currency, amount)
+  ON v.tier = p.tier
+WHERE p.billing_interval = 'month' AND p.currency = 'gbp';
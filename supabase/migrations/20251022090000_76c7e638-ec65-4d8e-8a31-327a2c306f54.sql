@@ -0,0 +1,9 @@
+-- Free trial length offered with each plan (0 = no trial)
+ALTER TABLE public.plans
+  ADD COLUMN trial_period_days INTEGER NOT NULL DEFAULT 0 CHECK (trial_period_days >= 0);
+
+UPDATE public.plans SET trial_period_days = 7;
+
+-- When the current trial ends, for subscribers whose status is 'trialing'
+ALTER TABLE public.subscribers
+  ADD COLUMN IF NOT EXISTS trial_end TIMESTAMPTZ;
@@ -0,0 +1,24 @@
+-- Move playback sources out of the publicly readable movies table. movie_videos has RLS
+-- enabled and no policies, so only the service role (the get-playback-url function) can read it.
+CREATE TABLE public.movie_videos (
+  movie_id UUID PRIMARY KEY REFERENCES public.movies(id) ON DELETE CASCADE,
+  video_url TEXT NOT NULL, -- Object path in the private "videos" bucket, or an absolute URL for externally hosted files
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.movie_videos ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_movie_videos_updated_at
+  BEFORE UPDATE ON public.movie_videos
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.movie_videos (movie_id, video_url)
+SELECT id, video_url FROM public.movies WHERE video_url IS NOT NULL;
+
+ALTER TABLE public.movies DROP COLUMN video_url;
+
+-- Private bucket for video files; access is only through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('videos', 'videos', false)
+ON CONFLICT (id) DO NOTHING;
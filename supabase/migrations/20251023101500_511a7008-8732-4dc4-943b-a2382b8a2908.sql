@@ -0,0 +1,45 @@
+-- Staff roles. Replaces the TEST_BASIC_EMAIL/TEST_PREMIUM_EMAIL admin check.
+CREATE TYPE public.app_role AS ENUM ('admin', 'editor', 'support');
+
+CREATE TABLE public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE INDEX idx_user_roles_user_id ON public.user_roles(user_id);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so policies on user_roles can call it without recursing into themselves
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all roles" ON public.user_roles
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant roles" ON public.user_roles
+  FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke roles" ON public.user_roles
+  FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+-- The first admin has to be granted by hand, e.g.
+-- INSERT INTO public.user_roles (user_id, role)
+-- SELECT id, 'admin' FROM auth.users WHERE email = 'you@example.com';
@@ -0,0 +1,25 @@
+-- TMDB identity for movies so the catalog sync can upsert instead of wiping and reinserting.
+-- Existing rows keep a NULL tmdb_id until the next sync matches them by title and release year.
+ALTER TABLE public.movies ADD COLUMN tmdb_id INTEGER;
+
+ALTER TABLE public.movies ADD CONSTRAINT movies_tmdb_id_key UNIQUE (tmdb_id);
+
+-- Credits are upserted per movie and person, so collapse any duplicates left by earlier imports first
+DELETE FROM public.cast_members a
+USING public.cast_members b
+WHERE a.movie_id = b.movie_id
+  AND a.tmdb_person_id = b.tmdb_person_id
+  AND a.ctid > b.ctid;
+
+DELETE FROM public.crew_members a
+USING public.crew_members b
+WHERE a.movie_id = b.movie_id
+  AND a.tmdb_person_id = b.tmdb_person_id
+  AND a.job = b.job
+  AND a.ctid > b.ctid;
+
+ALTER TABLE public.cast_members
+  ADD CONSTRAINT cast_members_movie_person_key UNIQUE (movie_id, tmdb_person_id);
+
+ALTER TABLE public.crew_members
+  ADD CONSTRAINT crew_members_movie_person_job_key UNIQUE (movie_id, tmdb_person_id, job);
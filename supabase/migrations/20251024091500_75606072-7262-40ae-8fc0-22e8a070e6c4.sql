@@ -0,0 +1,42 @@
+-- Catalog imports run as background jobs processed in chunks, so no single
+-- edge-function invocation has to survive the whole TMDB sync.
+CREATE TABLE public.import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mode TEXT NOT NULL CHECK (mode IN ('full', 'new-releases', 'single')),
+  tmdb_id INTEGER, -- Only for single-title refreshes
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  tmdb_ids INTEGER[], -- Discovered on the first chunk; NULL until then
+  cursor INTEGER NOT NULL DEFAULT 0, -- Index into tmdb_ids of the next movie to process
+  total INTEGER NOT NULL DEFAULT 0,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  unchanged INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  cast_count INTEGER NOT NULL DEFAULT 0,
+  crew_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb, -- Most recent per-movie errors, capped by the worker
+  last_error TEXT, -- Why the job failed, when it did
+  locked_until TIMESTAMPTZ, -- Held by the worker processing a chunk
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (mode <> 'single' OR tmdb_id IS NOT NULL)
+);
+
+-- Only one import may be in flight at a time
+CREATE UNIQUE INDEX idx_import_jobs_single_active ON public.import_jobs ((true))
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX idx_import_jobs_created_at ON public.import_jobs(created_at DESC);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Admins watch progress from the Account page; jobs are only written by edge functions
+CREATE POLICY "Admins can view import jobs" ON public.import_jobs
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_import_jobs_updated_at
+  BEFORE UPDATE ON public.import_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,107 @@
+-- Server-side catalog search: full-text over title, genres and description,
+-- with trigram matching on titles so near-miss spellings still find a movie.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Declared IMMUTABLE so it can back an expression index; array_to_string is only
+-- STABLE in general but is deterministic for text[]
+CREATE OR REPLACE FUNCTION public.movie_search_document(title TEXT, description TEXT, genre TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(array_to_string(genre, ' '), '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'C')
+$$;
+
+CREATE INDEX idx_movies_search_document ON public.movies
+  USING GIN (public.movie_search_document(title, description, genre));
+
+CREATE INDEX idx_movies_title_trgm ON public.movies
+  USING GIN (title extensions.gin_trgm_ops);
+
+CREATE INDEX idx_movies_genre ON public.movies USING GIN (genre);
+
+-- Mirrors the filters on the home page. NULL arguments mean "no filter".
+-- sort_by: title | release_year | rating | duration_minutes | created_at
+CREATE OR REPLACE FUNCTION public.search_movies(
+  search_term TEXT DEFAULT NULL,
+  genres TEXT[] DEFAULT NULL,
+  min_year INTEGER DEFAULT NULL,
+  max_year INTEGER DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_rating NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  tier TEXT DEFAULT NULL,
+  sort_by TEXT DEFAULT 'release_year',
+  sort_order TEXT DEFAULT 'desc',
+  page_offset INTEGER DEFAULT 0,
+  page_limit INTEGER DEFAULT 15
+)
+RETURNS SETOF public.movies
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_term), '') AS term,
+      CASE WHEN nullif(trim(search_term), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', trim(search_term))
+      END AS query
+  )
+  SELECT m.*
+  FROM movies m, params p
+  WHERE (
+      p.term IS NULL
+      OR movie_search_document(m.title, m.description, m.genre) @@ p.query
+      OR m.title % p.term
+      OR m.title ILIKE '%' || p.term || '%'
+    )
+    AND (genres IS NULL OR cardinality(genres) = 0 OR m.genre && genres)
+    AND (min_year IS NULL OR m.release_year >= min_year)
+    AND (max_year IS NULL OR m.release_year <= max_year)
+    AND (min_rating IS NULL OR coalesce(m.rating, 0) >= min_rating)
+    AND (max_rating IS NULL OR coalesce(m.rating, 0) <= max_rating)
+    AND (min_duration IS NULL OR m.duration_minutes >= min_duration)
+    AND (max_duration IS NULL OR m.duration_minutes <= max_duration)
+    AND (tier IS NULL OR m.subscription_tier = tier)
+  ORDER BY
+    CASE WHEN sort_by = 'title' AND sort_order = 'asc' THEN lower(m.title) END ASC,
+    CASE WHEN sort_by = 'title' AND sort_order <> 'asc' THEN lower(m.title) END DESC,
+    CASE WHEN sort_order = 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+      END
+    END ASC NULLS LAST,
+    CASE WHEN sort_order <> 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+      END
+    END DESC NULLS LAST,
+    -- Within equal sort keys, the closest matches come first
+    CASE WHEN p.term IS NULL THEN 0
+      ELSE ts_rank(movie_search_document(m.title, m.description, m.genre), p.query) + similarity(m.title, p.term)
+    END DESC,
+    m.id
+  OFFSET greatest(page_offset, 0)
+  LIMIT least(greatest(page_limit, 1), 100)
+$$;
+
+-- Genre options for the filter, independent of whatever page is loaded
+CREATE OR REPLACE FUNCTION public.list_movie_genres()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT unnest(genre) AS name FROM movies ORDER BY name
+$$;
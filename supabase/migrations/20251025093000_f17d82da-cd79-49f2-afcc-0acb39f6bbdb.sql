@@ -0,0 +1,72 @@
+-- Named home page views. A view is stored as the home page query string
+-- (q, genres, year, rating, duration, tier, sort, order, quick), so applying
+-- one is the same as opening a shared link.
+CREATE TABLE public.saved_filters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for global presets published by admins
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  query TEXT NOT NULL CHECK (query <> ''),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Names are unique per owner, and among global presets
+CREATE UNIQUE INDEX idx_saved_filters_owner_name ON public.saved_filters
+  (COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(btrim(name)));
+
+ALTER TABLE public.saved_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view global presets" ON public.saved_filters
+  FOR SELECT USING (user_id IS NULL);
+
+CREATE POLICY "Users can manage their own saved filters" ON public.saved_filters
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage global presets" ON public.saved_filters
+  FOR ALL USING (user_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (user_id IS NULL AND public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_saved_filters_updated_at
+  BEFORE UPDATE ON public.saved_filters
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recent searches follow the account across devices instead of living in localStorage
+CREATE TABLE public.recent_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  term TEXT NOT NULL CHECK (char_length(term) BETWEEN 1 AND 200),
+  searched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, term)
+);
+
+CREATE INDEX idx_recent_searches_user_searched_at ON public.recent_searches(user_id, searched_at DESC);
+
+ALTER TABLE public.recent_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recent searches" ON public.recent_searches
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Only the latest few are ever shown, so older ones are dropped as new ones arrive
+CREATE OR REPLACE FUNCTION public.trim_recent_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.recent_searches
+  WHERE user_id = NEW.user_id
+    AND id NOT IN (
+      SELECT id FROM public.recent_searches
+      WHERE user_id = NEW.user_id
+      ORDER BY searched_at DESC
+      LIMIT 20
+    );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trim_recent_searches_after_insert
+  AFTER INSERT ON public.recent_searches
+  FOR EACH ROW EXECUTE FUNCTION public.trim_recent_searches();
@@ -0,0 +1,136 @@
+-- Trending is scored from what people actually do on the platform: views,
+-- watchlist adds and ratings over the last seven days, with older activity
+-- decaying (half-life of one day). Recomputed on a schedule rather than per query.
+CREATE MATERIALIZED VIEW public.movie_trending_scores AS
+WITH activity AS (
+  -- One event per viewer per title, however many times the player saved progress
+  SELECT movie_id, max(watched_at) AS happened_at,
+    CASE WHEN bool_or(completed) THEN 2.0 ELSE 1.0 END AS weight
+  FROM public.viewing_history
+  WHERE watched_at > now() - interval '7 days'
+  GROUP BY user_id, movie_id
+
+  UNION ALL
+
+  SELECT movie_id, created_at, 2.0
+  FROM public.watchlist
+  WHERE created_at > now() - interval '7 days'
+
+  UNION ALL
+
+  -- A 5-star rating counts for five times a 1-star one
+  SELECT movie_id, updated_at, rating * 0.4
+  FROM public.user_ratings
+  WHERE updated_at > now() - interval '7 days'
+)
+SELECT
+  movie_id,
+  round(coalesce(sum(weight) FILTER (WHERE happened_at > now() - interval '24 hours'), 0), 2) AS score_24h,
+  round(sum(weight), 2) AS score_7d,
+  round(sum(weight * power(0.5, extract(epoch FROM now() - happened_at) / 86400)), 4) AS trending_score,
+  now() AS refreshed_at
+FROM activity
+GROUP BY movie_id;
+
+-- Unique index so the refresh can run CONCURRENTLY without blocking readers
+CREATE UNIQUE INDEX idx_movie_trending_scores_movie_id ON public.movie_trending_scores(movie_id);
+CREATE INDEX idx_movie_trending_scores_score ON public.movie_trending_scores(trending_score DESC);
+
+-- Aggregates only; no per-user data leaves the view
+GRANT SELECT ON public.movie_trending_scores TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_trending_scores()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.movie_trending_scores
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_trending_scores() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-trending-scores',
+  '*/15 * * * *',
+  $$SELECT public.refresh_trending_scores()$$
+);
+
+-- Mirrors the filters on the home page. NULL arguments mean "no filter".
+-- sort_by: title | release_year | rating | duration_minutes | created_at | trending
+CREATE OR REPLACE FUNCTION public.search_movies(
+  search_term TEXT DEFAULT NULL,
+  genres TEXT[] DEFAULT NULL,
+  min_year INTEGER DEFAULT NULL,
+  max_year INTEGER DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_rating NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  tier TEXT DEFAULT NULL,
+  sort_by TEXT DEFAULT 'release_year',
+  sort_order TEXT DEFAULT 'desc',
+  page_offset INTEGER DEFAULT 0,
+  page_limit INTEGER DEFAULT 15
+)
+RETURNS SETOF public.movies
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_term), '') AS term,
+      CASE WHEN nullif(trim(search_term), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', trim(search_term))
+      END AS query
+  )
+  SELECT m.*
+  FROM movies m
+  CROSS JOIN params p
+  LEFT JOIN movie_trending_scores t ON t.movie_id = m.id
+  WHERE (
+      p.term IS NULL
+      OR movie_search_document(m.title, m.description, m.genre) @@ p.query
+      OR m.title % p.term
+      OR m.title ILIKE '%' || p.term || '%'
+    )
+    AND (genres IS NULL OR cardinality(genres) = 0 OR m.genre && genres)
+    AND (min_year IS NULL OR m.release_year >= min_year)
+    AND (max_year IS NULL OR m.release_year <= max_year)
+    AND (min_rating IS NULL OR coalesce(m.rating, 0) >= min_rating)
+    AND (max_rating IS NULL OR coalesce(m.rating, 0) <= max_rating)
+    AND (min_duration IS NULL OR m.duration_minutes >= min_duration)
+    AND (max_duration IS NULL OR m.duration_minutes <= max_duration)
+    AND (tier IS NULL OR m.subscription_tier = tier)
+  ORDER BY
+    CASE WHEN sort_by = 'title' AND sort_order = 'asc' THEN lower(m.title) END ASC,
+    CASE WHEN sort_by = 'title' AND sort_order <> 'asc' THEN lower(m.title) END DESC,
+    CASE WHEN sort_order = 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+        WHEN 'trending' THEN coalesce(t.trending_score, 0)
+      END
+    END ASC NULLS LAST,
+    CASE WHEN sort_order <> 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+        WHEN 'trending' THEN coalesce(t.trending_score, 0)
+      END
+    END DESC NULLS LAST,
+    -- Within equal sort keys, the closest matches come first
+    CASE WHEN p.term IS NULL THEN 0
+      ELSE ts_rank(movie_search_document(m.title, m.description, m.genre), p.query) + similarity(m.title, p.term)
+    END DESC,
+    m.id
+  OFFSET greatest(page_offset, 0)
+  LIMIT least(greatest(page_limit, 1), 100)
+$$;
@@ -0,0 +1,258 @@
+-- Item-item recommendations. Two movies are similar when they share genres,
+-- cast, key crew or fans (viewers who rated both 4 stars or more). Scores are
+-- computed per request from the current catalog and ratings.
+
+CREATE INDEX IF NOT EXISTS idx_user_ratings_movie_id ON public.user_ratings(movie_id);
+
+-- Similarity between each seed and every related movie, weighted
+-- genres 0.35, cast 0.25, key crew 0.15, shared fans 0.25.
+-- reason names the most specific signal: crew, then cast, then fans, then genres.
+-- SECURITY DEFINER because fans are counted across everyone's ratings; only aggregates leave the function.
+CREATE OR REPLACE FUNCTION public.movie_similarity(seed_ids UUID[])
+RETURNS TABLE (seed_id UUID, movie_id UUID, score NUMERIC, reason TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH seeds AS (
+    SELECT id, coalesce(genre, '{}') AS genre FROM movies WHERE id = ANY(seed_ids)
+  ),
+  genre_matches AS (
+    SELECT s.id AS seed_id, m.id AS movie_id,
+      ARRAY(SELECT g FROM unnest(s.genre) g WHERE g = ANY(m.genre) ORDER BY g) AS shared,
+      (SELECT count(DISTINCT g) FROM unnest(s.genre || m.genre) g) AS combined
+    FROM seeds s
+    JOIN movies m ON m.id <> s.id AND m.genre && s.genre
+  ),
+  -- Only the top-billed cast of the seed counts; extras shared across films mean little
+  cast_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(other.name ORDER BY own.order_position NULLS LAST, other.name))[1] AS top_name
+    FROM seeds s
+    JOIN cast_members own ON own.movie_id = s.id AND coalesce(own.order_position, 0) < 10
+    JOIN cast_members other ON other.tmdb_person_id = own.tmdb_person_id AND other.movie_id <> s.id
+    GROUP BY s.id, other.movie_id
+  ),
+  crew_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(lower(own.job) || ': ' || own.name ORDER BY own.job, own.name))[1] AS top_credit
+    FROM seeds s
+    JOIN crew_members own ON own.movie_id = s.id AND own.job IN ('Director', 'Screenplay', 'Writer')
+    JOIN crew_members other ON other.tmdb_person_id = own.tmdb_person_id
+      AND other.job = own.job
+      AND other.movie_id <> s.id
+    GROUP BY s.id, other.movie_id
+  ),
+  fans AS (
+    SELECT user_ratings.movie_id, count(*) AS likes
+    FROM user_ratings
+    WHERE rating >= 4
+    GROUP BY user_ratings.movie_id
+  ),
+  fan_matches AS (
+    SELECT s.id AS seed_id, other.movie_id, count(*) AS shared
+    FROM seeds s
+    JOIN user_ratings own ON own.movie_id = s.id AND own.rating >= 4
+    JOIN user_ratings other ON other.user_id = own.user_id AND other.movie_id <> s.id AND other.rating >= 4
+    GROUP BY s.id, other.movie_id
+  ),
+  candidates AS (
+    SELECT genre_matches.seed_id, genre_matches.movie_id FROM genre_matches
+    UNION SELECT cast_matches.seed_id, cast_matches.movie_id FROM cast_matches
+    UNION SELECT crew_matches.seed_id, crew_matches.movie_id FROM crew_matches
+    UNION SELECT fan_matches.seed_id, fan_matches.movie_id FROM fan_matches
+  ),
+  scored AS (
+    SELECT c.seed_id, c.movie_id,
+      coalesce(cardinality(g.shared)::NUMERIC / nullif(g.combined, 0), 0) AS genre_score,
+      least(coalesce(ca.shared, 0), 3) / 3.0 AS cast_score,
+      least(coalesce(cr.shared, 0), 2) / 2.0 AS crew_score,
+      -- Cosine similarity over the sets of fans
+      coalesce(f.shared / sqrt((seed_fans.likes * movie_fans.likes)::NUMERIC), 0) AS fan_score,
+      g.shared AS genres,
+      ca.top_name,
+      cr.top_credit,
+      coalesce(f.shared, 0) AS shared_fans
+    FROM candidates c
+    LEFT JOIN genre_matches g ON g.seed_id = c.seed_id AND g.movie_id = c.movie_id
+    LEFT JOIN cast_matches ca ON ca.seed_id = c.seed_id AND ca.movie_id = c.movie_id
+    LEFT JOIN crew_matches cr ON cr.seed_id = c.seed_id AND cr.movie_id = c.movie_id
+    LEFT JOIN fan_matches f ON f.seed_id = c.seed_id AND f.movie_id = c.movie_id
+    LEFT JOIN fans seed_fans ON seed_fans.movie_id = c.seed_id
+    LEFT JOIN fans movie_fans ON movie_fans.movie_id = c.movie_id
+  )
+  SELECT scored.seed_id, scored.movie_id,
+    round(0.35 * genre_score + 0.25 * cast_score + 0.15 * crew_score + 0.25 * fan_score, 4) AS score,
+    CASE
+      WHEN top_credit IS NOT NULL THEN 'Same ' || top_credit
+      WHEN top_name IS NOT NULL THEN 'Also stars ' || top_name
+      WHEN shared_fans >= 2 OR cardinality(genres) IS NULL OR cardinality(genres) = 0 THEN 'Liked by the same viewers'
+      ELSE 'Also ' || array_to_string(genres, ', ')
+    END AS reason
+  FROM scored
+$$;
+
+-- Titles the user has already rated, started or saved; recommendations skip them
+CREATE OR REPLACE FUNCTION public.user_seen_movie_ids(_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT movie_id FROM user_ratings WHERE user_id = _user_id
+  UNION SELECT movie_id FROM viewing_history WHERE user_id = _user_id
+  UNION SELECT movie_id FROM watchlist WHERE user_id = _user_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.movie_similarity(UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_seen_movie_ids(UUID) FROM PUBLIC, anon, authenticated;
+
+-- "More like this" on the details page. With exclude_seen, titles the
+-- signed-in user has already rated, started or saved are left out.
+CREATE OR REPLACE FUNCTION public.similar_movies(
+  target_movie_id UUID,
+  result_limit INTEGER DEFAULT 12,
+  exclude_seen BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.title, m.description, m.genre, m.release_year, m.duration_minutes, m.rating,
+    m.poster_url, m.subscription_tier, s.score, s.reason
+  FROM movie_similarity(ARRAY[target_movie_id]) s
+  JOIN movies m ON m.id = s.movie_id
+  WHERE NOT exclude_seen OR m.id NOT IN (SELECT user_seen_movie_ids(auth.uid()))
+  ORDER BY s.score DESC, m.id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
+
+-- "Because you watched X": more like the signed-in user's most recently watched title
+CREATE OR REPLACE FUNCTION public.because_you_watched(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT,
+  source_movie_id UUID,
+  source_title TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT vh.movie_id
+    FROM viewing_history vh
+    WHERE vh.user_id = auth.uid()
+    ORDER BY vh.watched_at DESC
+    LIMIT 1
+  )
+  SELECT s.id, s.title, s.description, s.genre, s.release_year, s.duration_minutes, s.rating,
+    s.poster_url, s.subscription_tier, s.score, s.reason, src.id, src.title
+  FROM latest l
+  JOIN movies src ON src.id = l.movie_id
+  CROSS JOIN LATERAL similar_movies(l.movie_id, result_limit, true) s
+  ORDER BY s.score DESC, s.id
+$$;
+
+-- "Recommended for you": similarity summed over the user's strongest signals.
+-- A 5-star rating counts 2, 4 stars 1, a finished title 1.5, a started one 0.5
+-- and a watchlist save 1; the 20 heaviest titles seed the search.
+CREATE OR REPLACE FUNCTION public.recommended_movies(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT,
+  source_movie_id UUID,
+  source_title TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH signals AS (
+    SELECT ur.movie_id, (ur.rating - 3)::NUMERIC AS weight, 'liked' AS action, ur.updated_at AS happened_at
+    FROM user_ratings ur
+    WHERE ur.user_id = auth.uid() AND ur.rating >= 4
+
+    UNION ALL
+
+    SELECT vh.movie_id, CASE WHEN bool_or(vh.completed) THEN 1.5 ELSE 0.5 END, 'watched', max(vh.watched_at)
+    FROM viewing_history vh
+    WHERE vh.user_id = auth.uid()
+    GROUP BY vh.movie_id
+
+    UNION ALL
+
+    SELECT w.movie_id, 1.0, 'saved', w.created_at
+    FROM watchlist w
+    WHERE w.user_id = auth.uid()
+  ),
+  seeds AS (
+    SELECT sig.movie_id, sum(sig.weight) AS weight,
+      (array_agg(sig.action ORDER BY sig.weight DESC, sig.action))[1] AS action
+    FROM signals sig
+    GROUP BY sig.movie_id
+    ORDER BY sum(sig.weight) DESC, max(sig.happened_at) DESC, sig.movie_id
+    LIMIT 20
+  ),
+  contributions AS (
+    SELECT sim.movie_id, sim.seed_id, sim.reason, sim.score * seeds.weight AS contribution
+    FROM movie_similarity(ARRAY(SELECT seeds.movie_id FROM seeds)) sim
+    JOIN seeds ON seeds.movie_id = sim.seed_id
+    WHERE sim.movie_id NOT IN (SELECT user_seen_movie_ids(auth.uid()))
+  ),
+  ranked AS (
+    SELECT c.movie_id, sum(c.contribution) AS score,
+      (array_agg(c.seed_id ORDER BY c.contribution DESC, c.seed_id))[1] AS source_movie_id,
+      (array_agg(c.reason ORDER BY c.contribution DESC, c.seed_id))[1] AS detail
+    FROM contributions c
+    GROUP BY c.movie_id
+  )
+  SELECT m.id, m.title, m.description, m.genre, m.release_year, m.duration_minutes, m.rating,
+    m.poster_url, m.subscription_tier, round(r.score, 4),
+    'Because you ' || seeds.action || ' ' || src.title || ' · ' || r.detail,
+    src.id, src.title
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  JOIN movies src ON src.id = r.source_movie_id
+  JOIN seeds ON seeds.movie_id = r.source_movie_id
+  ORDER BY r.score DESC, m.id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
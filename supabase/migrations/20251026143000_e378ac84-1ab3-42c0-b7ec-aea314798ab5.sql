@@ -0,0 +1,46 @@
+-- People search for the home page: cast and crew whose names match the search,
+-- one row per person however many credits they have.
+CREATE INDEX idx_cast_members_name_trgm ON public.cast_members
+  USING GIN (name extensions.gin_trgm_ops);
+
+CREATE INDEX idx_crew_members_name_trgm ON public.crew_members
+  USING GIN (name extensions.gin_trgm_ops);
+
+-- known_for is 'Acting' or the crew department the person has the most credits in
+CREATE OR REPLACE FUNCTION public.search_people(search_term TEXT, result_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  tmdb_person_id INTEGER,
+  name TEXT,
+  profile_picture_url TEXT,
+  known_for TEXT,
+  movie_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT nullif(trim(search_term), '') AS term
+  ),
+  credits AS (
+    SELECT c.tmdb_person_id, c.name, c.profile_picture_url, 'Acting' AS department, c.movie_id
+    FROM cast_members c, params p
+    WHERE c.name % p.term OR c.name ILIKE '%' || p.term || '%'
+
+    UNION ALL
+
+    SELECT cr.tmdb_person_id, cr.name, cr.profile_picture_url, coalesce(cr.department, cr.job), cr.movie_id
+    FROM crew_members cr, params p
+    WHERE cr.name % p.term OR cr.name ILIKE '%' || p.term || '%'
+  )
+  SELECT
+    credits.tmdb_person_id,
+    (array_agg(credits.name ORDER BY credits.name))[1],
+    (array_agg(credits.profile_picture_url) FILTER (WHERE credits.profile_picture_url IS NOT NULL))[1],
+    mode() WITHIN GROUP (ORDER BY credits.department),
+    count(DISTINCT credits.movie_id)
+  FROM credits, params p
+  GROUP BY credits.tmdb_person_id, p.term
+  ORDER BY max(similarity(credits.name, p.term)) DESC, count(DISTINCT credits.movie_id) DESC, credits.tmdb_person_id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
@@ -0,0 +1,295 @@
+-- People and genres get their own tables. Credits point at a person instead of
+-- copying their name and photo into every movie they appear in, and a movie's
+-- genres are rows in movie_genres rather than a free-text array.
+
+-- People -----------------------------------------------------------------
+
+CREATE TABLE public.people (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tmdb_person_id INTEGER NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  profile_picture_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Where a person's credits disagree, the most recently synced one with a photo wins
+INSERT INTO public.people (tmdb_person_id, name, profile_picture_url)
+SELECT DISTINCT ON (tmdb_person_id) tmdb_person_id, name, profile_picture_url
+FROM (
+  SELECT tmdb_person_id, name, profile_picture_url, updated_at FROM public.cast_members
+  UNION ALL
+  SELECT tmdb_person_id, name, profile_picture_url, updated_at FROM public.crew_members
+) credits
+ORDER BY tmdb_person_id, (profile_picture_url IS NULL), updated_at DESC;
+
+ALTER TABLE public.cast_members
+  ADD CONSTRAINT cast_members_tmdb_person_id_fkey
+  FOREIGN KEY (tmdb_person_id) REFERENCES public.people(tmdb_person_id) ON UPDATE CASCADE;
+
+ALTER TABLE public.crew_members
+  ADD CONSTRAINT crew_members_tmdb_person_id_fkey
+  FOREIGN KEY (tmdb_person_id) REFERENCES public.people(tmdb_person_id) ON UPDATE CASCADE;
+
+-- Also drops the per-credit name indexes; people.name replaces them
+ALTER TABLE public.cast_members DROP COLUMN name, DROP COLUMN profile_picture_url;
+ALTER TABLE public.crew_members DROP COLUMN name, DROP COLUMN profile_picture_url;
+
+CREATE INDEX idx_people_name_trgm ON public.people
+  USING GIN (name extensions.gin_trgm_ops);
+
+ALTER TABLE public.people ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view people" ON public.people
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_people_updated_at
+  BEFORE UPDATE ON public.people
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Genres -----------------------------------------------------------------
+
+CREATE TABLE public.genres (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tmdb_genre_id INTEGER UNIQUE, -- NULL for genres that didn't come from TMDB
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.genres (tmdb_genre_id, name) VALUES
+  (28, 'Action'),
+  (12, 'Adventure'),
+  (16, 'Animation'),
+  (35, 'Comedy'),
+  (80, 'Crime'),
+  (99, 'Documentary'),
+  (18, 'Drama'),
+  (10751, 'Family'),
+  (14, 'Fantasy'),
+  (36, 'History'),
+  (27, 'Horror'),
+  (10402, 'Music'),
+  (9648, 'Mystery'),
+  (10749, 'Romance'),
+  (878, 'Science Fiction'),
+  (10770, 'TV Movie'),
+  (53, 'Thriller'),
+  (10752, 'War'),
+  (37, 'Western');
+
+-- Anything else already in the catalog is kept as a genre of its own
+INSERT INTO public.genres (name)
+SELECT DISTINCT btrim(g) FROM public.movies, unnest(genre) g
+WHERE btrim(g) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE public.movie_genres (
+  movie_id UUID NOT NULL REFERENCES public.movies(id) ON DELETE CASCADE,
+  genre_id UUID NOT NULL REFERENCES public.genres(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL DEFAULT 0, -- TMDB's order; the first genre is the primary one
+  PRIMARY KEY (movie_id, genre_id)
+);
+
+CREATE INDEX idx_movie_genres_genre_id ON public.movie_genres(genre_id);
+
+INSERT INTO public.movie_genres (movie_id, genre_id, position)
+SELECT m.id, g.id, min(entry.ordinality - 1)
+FROM public.movies m
+CROSS JOIN LATERAL unnest(m.genre) WITH ORDINALITY AS entry(name, ordinality)
+JOIN public.genres g ON g.name = btrim(entry.name)
+GROUP BY m.id, g.id;
+
+ALTER TABLE public.genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.movie_genres ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view genres" ON public.genres
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view movie genres" ON public.movie_genres
+  FOR SELECT USING (true);
+
+-- movies.genre stays as a read-only copy of movie_genres, so search, the
+-- search index and movie cards keep working off a single column. Only these
+-- triggers write it.
+CREATE OR REPLACE FUNCTION public.refresh_movie_genre_names(_movie_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE movies m
+  SET genre = ARRAY(
+    SELECT g.name
+    FROM movie_genres mg
+    JOIN genres g ON g.id = mg.genre_id
+    WHERE mg.movie_id = m.id
+    ORDER BY mg.position, g.name
+  )
+  WHERE m.id = ANY(_movie_ids)
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_movie_genre_names()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'genres' THEN
+    PERFORM refresh_movie_genre_names(ARRAY(SELECT movie_id FROM movie_genres WHERE genre_id = NEW.id));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_movie_genre_names(ARRAY[OLD.movie_id]);
+  ELSE
+    PERFORM refresh_movie_genre_names(ARRAY[NEW.movie_id]);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_movie_genre_names_on_movie_genres
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_genres
+  FOR EACH ROW EXECUTE FUNCTION public.sync_movie_genre_names();
+
+CREATE TRIGGER sync_movie_genre_names_on_rename
+  AFTER UPDATE OF name ON public.genres
+  FOR EACH ROW EXECUTE FUNCTION public.sync_movie_genre_names();
+
+REVOKE EXECUTE ON FUNCTION public.refresh_movie_genre_names(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Normalise what's there now (trimmed, de-duplicated, known genres only)
+SELECT public.refresh_movie_genre_names(ARRAY(SELECT id FROM public.movies));
+
+-- The genre filter reads the genres table directly now
+DROP FUNCTION public.list_movie_genres();
+
+-- Functions that read credit names -----------------------------------------
+
+CREATE OR REPLACE FUNCTION public.search_people(search_term TEXT, result_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  tmdb_person_id INTEGER,
+  name TEXT,
+  profile_picture_url TEXT,
+  known_for TEXT,
+  movie_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT nullif(trim(search_term), '') AS term
+  ),
+  matches AS (
+    SELECT p.tmdb_person_id, p.name, p.profile_picture_url, similarity(p.name, params.term) AS closeness
+    FROM people p, params
+    WHERE p.name % params.term OR p.name ILIKE '%' || params.term || '%'
+  ),
+  credits AS (
+    SELECT c.tmdb_person_id, 'Acting' AS department, c.movie_id
+    FROM cast_members c JOIN matches USING (tmdb_person_id)
+    UNION ALL
+    SELECT cr.tmdb_person_id, coalesce(cr.department, cr.job), cr.movie_id
+    FROM crew_members cr JOIN matches USING (tmdb_person_id)
+  )
+  SELECT
+    matches.tmdb_person_id,
+    matches.name,
+    matches.profile_picture_url,
+    mode() WITHIN GROUP (ORDER BY credits.department),
+    count(DISTINCT credits.movie_id)
+  FROM matches
+  JOIN credits ON credits.tmdb_person_id = matches.tmdb_person_id
+  GROUP BY matches.tmdb_person_id, matches.name, matches.profile_picture_url, matches.closeness
+  ORDER BY matches.closeness DESC, count(DISTINCT credits.movie_id) DESC, matches.tmdb_person_id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
+
+-- Unchanged apart from taking cast and crew names from people
+CREATE OR REPLACE FUNCTION public.movie_similarity(seed_ids UUID[])
+RETURNS TABLE (seed_id UUID, movie_id UUID, score NUMERIC, reason TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH seeds AS (
+    SELECT id, coalesce(genre, '{}') AS genre FROM movies WHERE id = ANY(seed_ids)
+  ),
+  genre_matches AS (
+    SELECT s.id AS seed_id, m.id AS movie_id,
+      ARRAY(SELECT g FROM unnest(s.genre) g WHERE g = ANY(m.genre) ORDER BY g) AS shared,
+      (SELECT count(DISTINCT g) FROM unnest(s.genre || m.genre) g) AS combined
+    FROM seeds s
+    JOIN movies m ON m.id <> s.id AND m.genre && s.genre
+  ),
+  -- Only the top-billed cast of the seed counts; extras shared across films mean little
+  cast_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(p.name ORDER BY own.order_position NULLS LAST, p.name))[1] AS top_name
+    FROM seeds s
+    JOIN cast_members own ON own.movie_id = s.id AND coalesce(own.order_position, 0) < 10
+    JOIN cast_members other ON other.tmdb_person_id = own.tmdb_person_id AND other.movie_id <> s.id
+    JOIN people p ON p.tmdb_person_id = own.tmdb_person_id
+    GROUP BY s.id, other.movie_id
+  ),
+  crew_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(lower(own.job) || ': ' || p.name ORDER BY own.job, p.name))[1] AS top_credit
+    FROM seeds s
+    JOIN crew_members own ON own.movie_id = s.id AND own.job IN ('Director', 'Screenplay', 'Writer')
+    JOIN crew_members other ON other.tmdb_person_id = own.tmdb_person_id
+      AND other.job = own.job
+      AND other.movie_id <> s.id
+    JOIN people p ON p.tmdb_person_id = own.tmdb_person_id
+    GROUP BY s.id, other.movie_id
+  ),
+  fans AS (
+    SELECT user_ratings.movie_id, count(*) AS likes
+    FROM user_ratings
+    WHERE rating >= 4
+    GROUP BY user_ratings.movie_id
+  ),
+  fan_matches AS (
+    SELECT s.id AS seed_id, other.movie_id, count(*) AS shared
+    FROM seeds s
+    JOIN user_ratings own ON own.movie_id = s.id AND own.rating >= 4
+    JOIN user_ratings other ON other.user_id = own.user_id AND other.movie_id <> s.id AND other.rating >= 4
+    GROUP BY s.id, other.movie_id
+  ),
+  candidates AS (
+    SELECT genre_matches.seed_id, genre_matches.movie_id FROM genre_matches
+    UNION SELECT cast_matches.seed_id, cast_matches.movie_id FROM cast_matches
+    UNION SELECT crew_matches.seed_id, crew_matches.movie_id FROM crew_matches
+    UNION SELECT fan_matches.seed_id, fan_matches.movie_id FROM fan_matches
+  ),
+  scored AS (
+    SELECT c.seed_id, c.movie_id,
+      coalesce(cardinality(g.shared)::NUMERIC / nullif(g.combined, 0), 0) AS genre_score,
+      least(coalesce(ca.shared, 0), 3) / 3.0 AS cast_score,
+      least(coalesce(cr.shared, 0), 2) / 2.0 AS crew_score,
+      -- Cosine similarity over the sets of fans
+      coalesce(f.shared / sqrt((seed_fans.likes * movie_fans.likes)::NUMERIC), 0) AS fan_score,
+      g.shared AS genres,
+      ca.top_name,
+      cr.top_credit,
+      coalesce(f.shared, 0) AS shared_fans
+    FROM candidates c
+    LEFT JOIN genre_matches g ON g.seed_id = c.seed_id AND g.movie_id = c.movie_id
+    LEFT JOIN cast_matches ca ON ca.seed_id = c.seed_id AND ca.movie_id = c.movie_id
+    LEFT JOIN crew_matches cr ON cr.seed_id = c.seed_id AND cr.movie_id = c.movie_id
+    LEFT JOIN fan_matches f ON f.seed_id = c.seed_id AND f.movie_id = c.movie_id
+    LEFT JOIN fans seed_fans ON seed_fans.movie_id = c.seed_id
+    LEFT JOIN fans movie_fans ON movie_fans.movie_id = c.movie_id
+  )
+  SELECT scored.seed_id, scored.movie_id,
+    round(0.35 * genre_score + 0.25 * cast_score + 0.15 * crew_score + 0.25 * fan_score, 4) AS score,
+    CASE
+      WHEN top_credit IS NOT NULL THEN 'Same ' || top_credit
+      WHEN top_name IS NOT NULL THEN 'Also stars ' || top_name
+      WHEN shared_fans >= 2 OR cardinality(genres) IS NULL OR cardinality(genres) = 0 THEN 'Liked by the same viewers'
+      ELSE 'Also ' || array_to_string(genres, ', ')
+    END AS reason
+  FROM scored
+$$;
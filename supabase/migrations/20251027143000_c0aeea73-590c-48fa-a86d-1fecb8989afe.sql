@@ -0,0 +1,147 @@
+-- Metadata from TMDB's movie details. duration_minutes now holds the real
+-- runtime as well, instead of a random placeholder.
+ALTER TABLE public.movies
+  ADD COLUMN release_date DATE,
+  ADD COLUMN certification TEXT,      -- US rating, e.g. PG-13
+  ADD COLUMN original_language TEXT,  -- ISO 639-1 code
+  ADD COLUMN tagline TEXT,
+  ADD COLUMN backdrop_url TEXT,
+  ADD COLUMN production_countries TEXT[] NOT NULL DEFAULT '{}', -- ISO 3166-1 codes
+  ADD COLUMN imdb_id TEXT,
+  ADD COLUMN popularity NUMERIC,
+  -- Set when an admin picks the tier by hand, so the rules below leave it alone
+  ADD COLUMN tier_locked BOOLEAN NOT NULL DEFAULT false;
+
+-- Runtimes until now were made up; clear them so the next sync fills in real ones
+UPDATE public.movies SET duration_minutes = NULL WHERE tmdb_id IS NOT NULL;
+
+-- Rules that decide a movie's subscription tier. The first active rule (by
+-- priority) whose conditions all hold wins; a condition left NULL always
+-- holds. Movies matching no rule are Basic.
+CREATE TABLE public.tier_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  tier TEXT NOT NULL CHECK (tier IN ('Basic', 'Premium')),
+  priority INTEGER NOT NULL DEFAULT 100,
+  max_age_days INTEGER CHECK (max_age_days > 0),  -- released within this many days
+  min_popularity NUMERIC CHECK (min_popularity >= 0),
+  min_rating NUMERIC CHECK (min_rating BETWEEN 0 AND 10),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tier_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage tier rules" ON public.tier_rules
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_tier_rules_updated_at
+  BEFORE UPDATE ON public.tier_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.tier_rules (name, tier, priority, max_age_days) VALUES
+  ('Recent releases', 'Premium', 10, 365);
+INSERT INTO public.tier_rules (name, tier, priority, min_popularity) VALUES
+  ('Popular titles', 'Premium', 20, 100);
+
+CREATE OR REPLACE FUNCTION public.resolve_movie_tier(_release_date DATE, _popularity NUMERIC, _rating NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT r.tier
+    FROM tier_rules r
+    WHERE r.active
+      AND (r.max_age_days IS NULL OR (_release_date IS NOT NULL AND _release_date >= current_date - r.max_age_days))
+      AND (r.min_popularity IS NULL OR COALESCE(_popularity, 0) >= r.min_popularity)
+      AND (r.min_rating IS NULL OR COALESCE(_rating, 0) >= r.min_rating)
+    ORDER BY r.priority, r.created_at
+    LIMIT 1
+  ), 'Basic')
+$$;
+
+-- Whatever writes a movie (the TMDB sync, an editor), its tier follows the rules unless locked.
+-- TMDB titles the sync hasn't filled in yet (no popularity) keep their tier: with no release
+-- date or popularity to go on, every rule would miss and they'd all drop to Basic.
+CREATE OR REPLACE FUNCTION public.set_movie_tier_from_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.tier_locked AND (NEW.tmdb_id IS NULL OR NEW.popularity IS NOT NULL) THEN
+    NEW.subscription_tier := resolve_movie_tier(NEW.release_date, NEW.popularity, NEW.rating);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_movie_tier_on_insert
+  BEFORE INSERT ON public.movies
+  FOR EACH ROW EXECUTE FUNCTION public.set_movie_tier_from_rules();
+
+CREATE TRIGGER set_movie_tier_on_update
+  BEFORE UPDATE OF release_date, popularity, rating, tier_locked ON public.movies
+  FOR EACH ROW EXECUTE FUNCTION public.set_movie_tier_from_rules();
+
+-- Re-evaluates every unlocked movie that has its metadata. Runs when the rules
+-- change, and nightly because "released within N days" moves on by itself.
+CREATE OR REPLACE FUNCTION public.apply_tier_rules()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE movies m
+  SET subscription_tier = t.tier
+  FROM (
+    SELECT id, resolve_movie_tier(release_date, popularity, rating) AS tier
+    FROM movies
+    WHERE NOT tier_locked
+      AND (tmdb_id IS NULL OR popularity IS NOT NULL)
+  ) t
+  WHERE m.id = t.id AND m.subscription_tier IS DISTINCT FROM t.tier;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_tier_rules_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM apply_tier_rules();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_tier_rules_after_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.tier_rules
+  FOR EACH STATEMENT EXECUTE FUNCTION public.apply_tier_rules_on_change();
+
+REVOKE EXECUTE ON FUNCTION public.resolve_movie_tier(DATE, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_tier_rules() FROM PUBLIC, anon, authenticated;
+
+-- The seed rules went in before the trigger above existed; tier the current catalog now
+-- rather than leaving it to the nightly run. TMDB titles are skipped until the next sync
+-- fills in their release date and popularity, which re-tiers each one as it's written.
+SELECT public.apply_tier_rules();
+
+SELECT cron.schedule(
+  'apply-tier-rules',
+  '30 3 * * *',
+  $$SELECT public.apply_tier_rules()$$
+);
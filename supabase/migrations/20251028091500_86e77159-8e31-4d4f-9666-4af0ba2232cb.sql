@@ -0,0 +1,177 @@
+-- Catalog editing from /admin/movies. Admins and editors write movies and
+-- their credits, genres and video sources directly, under RLS.
+CREATE OR REPLACE FUNCTION public.is_catalog_editor(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'editor')
+$$;
+
+-- Set by an editor so the TMDB sync leaves a hand-fixed movie, and its credits, alone
+ALTER TABLE public.movies ADD COLUMN sync_locked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Catalog editors can manage movies" ON public.movies
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+CREATE POLICY "Catalog editors can manage movie videos" ON public.movie_videos
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+CREATE POLICY "Catalog editors can manage cast members" ON public.cast_members
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+CREATE POLICY "Catalog editors can manage crew members" ON public.crew_members
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+CREATE POLICY "Catalog editors can manage people" ON public.people
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+CREATE POLICY "Catalog editors can manage movie genres" ON public.movie_genres
+  FOR ALL USING (public.is_catalog_editor(auth.uid()))
+  WITH CHECK (public.is_catalog_editor(auth.uid()));
+
+-- Who changed what. Rows are written by triggers only, and only for changes
+-- made by a signed-in user: the TMDB sync and scheduled jobs aren't logged.
+CREATE TABLE public.catalog_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id UUID NOT NULL, -- No foreign key, so history outlives a deleted movie
+  movie_title TEXT,
+  table_name TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  changes JSONB NOT NULL, -- The whole row for inserts and deletes, { column: { old, new } } for updates
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_catalog_audit_log_movie_id ON public.catalog_audit_log(movie_id, created_at DESC);
+CREATE INDEX idx_catalog_audit_log_created_at ON public.catalog_audit_log(created_at DESC);
+
+ALTER TABLE public.catalog_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Catalog editors can view the audit log" ON public.catalog_audit_log
+  FOR SELECT USING (public.is_catalog_editor(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.log_catalog_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  target_movie_id UUID;
+  row_changes JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  target_movie_id := (COALESCE(new_row, old_row) ->> CASE WHEN TG_TABLE_NAME = 'movies' THEN 'id' ELSE 'movie_id' END)::UUID;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- genre is a cache written by triggers; its movie_genres change is logged instead
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', old_row -> n.key, 'new', n.value))
+    INTO row_changes
+    FROM jsonb_each(new_row) n
+    WHERE n.key NOT IN ('genre', 'updated_at')
+      AND n.value IS DISTINCT FROM old_row -> n.key;
+
+    IF row_changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_OP = 'DELETE' AND TG_TABLE_NAME <> 'movies'
+    AND NOT EXISTS (SELECT 1 FROM movies WHERE id = target_movie_id) THEN
+    -- Cascaded from deleting the movie, which has its own entry
+    RETURN NULL;
+  ELSE
+    row_changes := COALESCE(new_row, old_row);
+  END IF;
+
+  INSERT INTO catalog_audit_log (movie_id, movie_title, table_name, action, changes, changed_by, changed_by_email)
+  VALUES (
+    target_movie_id,
+    COALESCE(
+      CASE WHEN TG_TABLE_NAME = 'movies' THEN COALESCE(new_row, old_row) ->> 'title' END,
+      (SELECT title FROM movies WHERE id = target_movie_id)
+    ),
+    TG_TABLE_NAME,
+    lower(TG_OP),
+    row_changes,
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_movies_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.movies
+  FOR EACH ROW EXECUTE FUNCTION public.log_catalog_change();
+
+CREATE TRIGGER log_movie_videos_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_videos
+  FOR EACH ROW EXECUTE FUNCTION public.log_catalog_change();
+
+CREATE TRIGGER log_cast_members_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.cast_members
+  FOR EACH ROW EXECUTE FUNCTION public.log_catalog_change();
+
+CREATE TRIGGER log_crew_members_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.crew_members
+  FOR EACH ROW EXECUTE FUNCTION public.log_catalog_change();
+
+CREATE TRIGGER log_movie_genres_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_genres
+  FOR EACH ROW EXECUTE FUNCTION public.log_catalog_change();
+
+-- A person's name or photo shows on every movie that credits them, so an edit
+-- is logged against each of those movies. New people only appear through a
+-- credit, which is logged itself, and credited people can't be deleted.
+CREATE OR REPLACE FUNCTION public.log_person_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  row_changes JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_object_agg(n.key, jsonb_build_object('old', old_row -> n.key, 'new', n.value))
+  INTO row_changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  WHERE n.key <> 'updated_at'
+    AND n.value IS DISTINCT FROM old_row -> n.key;
+
+  IF row_changes IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO catalog_audit_log (movie_id, movie_title, table_name, action, changes, changed_by, changed_by_email)
+  SELECT m.id, m.title, TG_TABLE_NAME, 'update', row_changes, auth.uid(), auth.jwt() ->> 'email'
+  FROM movies m
+  WHERE m.id IN (
+    SELECT movie_id FROM cast_members WHERE tmdb_person_id IN (OLD.tmdb_person_id, NEW.tmdb_person_id)
+    UNION
+    SELECT movie_id FROM crew_members WHERE tmdb_person_id IN (OLD.tmdb_person_id, NEW.tmdb_person_id)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_people_changes
+  AFTER UPDATE ON public.people
+  FOR EACH ROW EXECUTE FUNCTION public.log_person_change();
@@ -0,0 +1,411 @@
+-- Maturity ratings and parental controls. A movie's maturity level comes
+-- from its US certification; a profile with parental controls only sees
+-- titles up to its limit, and needs the PIN to open anything above it.
+ALTER TABLE public.movies ADD COLUMN maturity_level SMALLINT GENERATED ALWAYS AS (
+  CASE certification
+    WHEN 'G' THEN 0
+    WHEN 'PG' THEN 1
+    WHEN 'PG-13' THEN 2
+    WHEN 'R' THEN 3
+    WHEN 'NC-17' THEN 4
+  END
+) STORED;
+
+CREATE INDEX idx_movies_maturity_level ON public.movies(maturity_level);
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- No row means no restrictions. RLS is enabled with no policies: everything
+-- goes through the functions below, so the PIN hash never reaches a client.
+CREATE TABLE public.parental_controls (
+  profile_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  max_maturity_level SMALLINT NOT NULL CHECK (max_maturity_level BETWEEN 0 AND 3), -- G to R; NC-17 would restrict nothing
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.parental_controls ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_parental_controls_updated_at
+  BEFORE UPDATE ON public.parental_controls
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Restricted titles opened with the PIN stay open for a few hours
+CREATE TABLE public.parental_unlocks (
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  movie_id UUID NOT NULL REFERENCES public.movies(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (profile_id, movie_id)
+);
+
+ALTER TABLE public.parental_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.current_profile_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM profiles WHERE user_id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.viewer_max_maturity()
+RETURNS SMALLINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max_maturity_level FROM parental_controls WHERE profile_id = current_profile_id()
+$$;
+
+-- Unrated titles count as NC-17, so any limit hides them
+CREATE OR REPLACE FUNCTION public.viewer_can_browse(_maturity_level SMALLINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT limits.max_level IS NULL OR COALESCE(_maturity_level, 4) <= limits.max_level
+  FROM (SELECT viewer_max_maturity() AS max_level) limits
+$$;
+
+-- Also used by get-playback-url, which runs as the service role and passes the profile explicitly
+CREATE OR REPLACE FUNCTION public.profile_can_watch(_profile_id UUID, _movie_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1
+      FROM parental_controls pc
+      JOIN movies m ON m.id = _movie_id
+      WHERE pc.profile_id = _profile_id
+        AND COALESCE(m.maturity_level, 4) > pc.max_maturity_level
+    )
+    OR EXISTS (
+      SELECT 1 FROM parental_unlocks u
+      WHERE u.profile_id = _profile_id AND u.movie_id = _movie_id AND u.expires_at > now()
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.viewer_can_watch(_movie_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT profile_can_watch(current_profile_id(), _movie_id)
+$$;
+
+-- What the settings screen shows; the PIN hash stays server-side
+CREATE OR REPLACE FUNCTION public.get_parental_controls()
+RETURNS TABLE (max_maturity_level SMALLINT, locked_until TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT pc.max_maturity_level, pc.locked_until
+  FROM parental_controls pc
+  WHERE pc.profile_id = current_profile_id()
+$$;
+
+-- Five wrong PINs in a row lock the profile's PIN for 15 minutes. A wrong PIN
+-- returns false rather than raising, so the failed attempt is kept.
+CREATE OR REPLACE FUNCTION public.check_parental_pin(_profile_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  controls parental_controls%ROWTYPE;
+BEGIN
+  SELECT * INTO controls FROM parental_controls WHERE profile_id = _profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF controls.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many incorrect PINs. Try again in % minutes',
+      ceil(extract(epoch FROM controls.locked_until - now()) / 60);
+  END IF;
+
+  IF _pin IS NOT NULL AND extensions.crypt(_pin, controls.pin_hash) = controls.pin_hash THEN
+    UPDATE parental_controls SET failed_attempts = 0, locked_until = NULL WHERE profile_id = _profile_id;
+    RETURN true;
+  END IF;
+
+  UPDATE parental_controls
+  SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+    locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + interval '15 minutes' END
+  WHERE profile_id = _profile_id;
+  RETURN false;
+END;
+$$;
+
+-- Turns parental controls on, changes them, or turns them off (a NULL level).
+-- Once a PIN is set, every change needs it. Returns false for a wrong PIN.
+CREATE OR REPLACE FUNCTION public.set_parental_controls(
+  _max_maturity_level SMALLINT DEFAULT NULL,
+  _new_pin TEXT DEFAULT NULL,
+  _current_pin TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile UUID := current_profile_id();
+  has_controls BOOLEAN;
+BEGIN
+  IF profile IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF _new_pin IS NOT NULL AND _new_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 digits';
+  END IF;
+
+  has_controls := EXISTS (SELECT 1 FROM parental_controls WHERE profile_id = profile);
+  IF NOT has_controls AND _max_maturity_level IS NOT NULL AND _new_pin IS NULL THEN
+    RAISE EXCEPTION 'Choose a PIN to turn on parental controls';
+  END IF;
+  IF has_controls AND NOT check_parental_pin(profile, _current_pin) THEN
+    RETURN false;
+  END IF;
+
+  IF _max_maturity_level IS NULL THEN
+    DELETE FROM parental_controls WHERE profile_id = profile;
+    DELETE FROM parental_unlocks WHERE profile_id = profile;
+  ELSIF has_controls THEN
+    UPDATE parental_controls
+    SET max_maturity_level = _max_maturity_level,
+      pin_hash = COALESCE(extensions.crypt(_new_pin, extensions.gen_salt('bf')), pin_hash)
+    WHERE profile_id = profile;
+  ELSE
+    INSERT INTO parental_controls (profile_id, max_maturity_level, pin_hash)
+    VALUES (profile, _max_maturity_level, extensions.crypt(_new_pin, extensions.gen_salt('bf')));
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- Opens one restricted title for four hours. Returns false for a wrong PIN.
+CREATE OR REPLACE FUNCTION public.unlock_restricted_movie(_movie_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile UUID := current_profile_id();
+BEGIN
+  IF profile IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF NOT check_parental_pin(profile, _pin) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM parental_unlocks WHERE profile_id = profile AND expires_at <= now();
+  INSERT INTO parental_unlocks (profile_id, movie_id, expires_at)
+  VALUES (profile, _movie_id, now() + interval '4 hours')
+  ON CONFLICT (profile_id, movie_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_parental_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.profile_can_watch(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Browsing hides what the viewer's limit doesn't allow -----------------------
+
+-- Adds max_maturity (the home page's maturity filter, a level from 0 for G to
+-- 4 for NC-17) and leaves out titles above the viewer's parental limit
+DROP FUNCTION public.search_movies(TEXT, TEXT[], INTEGER, INTEGER, NUMERIC, NUMERIC, INTEGER, INTEGER, TEXT, TEXT, TEXT, INTEGER, INTEGER);
+
+-- Mirrors the filters on the home page. NULL arguments mean "no filter".
+-- sort_by: title | release_year | release_date | rating | duration_minutes | created_at | trending
+-- Titles without a release date (not yet synced from TMDB) sort last either way.
+CREATE OR REPLACE FUNCTION public.search_movies(
+  search_term TEXT DEFAULT NULL,
+  genres TEXT[] DEFAULT NULL,
+  min_year INTEGER DEFAULT NULL,
+  max_year INTEGER DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_rating NUMERIC DEFAULT NULL,
+  min_duration INTEGER DEFAULT NULL,
+  max_duration INTEGER DEFAULT NULL,
+  tier TEXT DEFAULT NULL,
+  max_maturity INTEGER DEFAULT NULL,
+  sort_by TEXT DEFAULT 'release_year',
+  sort_order TEXT DEFAULT 'desc',
+  page_offset INTEGER DEFAULT 0,
+  page_limit INTEGER DEFAULT 15
+)
+RETURNS SETOF public.movies
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(search_term), '') AS term,
+      CASE WHEN nullif(trim(search_term), '') IS NOT NULL
+        THEN websearch_to_tsquery('english', trim(search_term))
+      END AS query
+  )
+  SELECT m.*
+  FROM movies m
+  CROSS JOIN params p
+  LEFT JOIN movie_trending_scores t ON t.movie_id = m.id
+  WHERE (
+      p.term IS NULL
+      OR movie_search_document(m.title, m.description, m.genre) @@ p.query
+      OR m.title % p.term
+      OR m.title ILIKE '%' || p.term || '%'
+    )
+    AND (genres IS NULL OR cardinality(genres) = 0 OR m.genre && genres)
+    AND (min_year IS NULL OR m.release_year >= min_year)
+    AND (max_year IS NULL OR m.release_year <= max_year)
+    AND (min_rating IS NULL OR coalesce(m.rating, 0) >= min_rating)
+    AND (max_rating IS NULL OR coalesce(m.rating, 0) <= max_rating)
+    AND (min_duration IS NULL OR m.duration_minutes >= min_duration)
+    AND (max_duration IS NULL OR m.duration_minutes <= max_duration)
+    AND (tier IS NULL OR m.subscription_tier = tier)
+    AND (max_maturity IS NULL OR m.maturity_level <= max_maturity)
+    AND viewer_can_browse(m.maturity_level)
+  ORDER BY
+    CASE WHEN sort_by = 'title' AND sort_order = 'asc' THEN lower(m.title) END ASC,
+    CASE WHEN sort_by = 'title' AND sort_order <> 'asc' THEN lower(m.title) END DESC,
+    CASE WHEN sort_order = 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'release_date' THEN extract(epoch FROM m.release_date)::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+        WHEN 'trending' THEN coalesce(t.trending_score, 0)
+      END
+    END ASC NULLS LAST,
+    CASE WHEN sort_order <> 'asc' THEN
+      CASE sort_by
+        WHEN 'release_year' THEN m.release_year::NUMERIC
+        WHEN 'release_date' THEN extract(epoch FROM m.release_date)::NUMERIC
+        WHEN 'rating' THEN m.rating
+        WHEN 'duration_minutes' THEN m.duration_minutes::NUMERIC
+        WHEN 'created_at' THEN extract(epoch FROM m.created_at)::NUMERIC
+        WHEN 'trending' THEN coalesce(t.trending_score, 0)
+      END
+    END DESC NULLS LAST,
+    -- Within equal sort keys, the closest matches come first
+    CASE WHEN p.term IS NULL THEN 0
+      ELSE ts_rank(movie_search_document(m.title, m.description, m.genre), p.query) + similarity(m.title, p.term)
+    END DESC,
+    m.id
+  OFFSET greatest(page_offset, 0)
+  LIMIT least(greatest(page_limit, 1), 100)
+$$;
+
+-- Unchanged apart from skipping titles above the viewer's parental limit, which
+-- keeps them out of "More like this", "Because you watched" and recommendations
+CREATE OR REPLACE FUNCTION public.movie_similarity(seed_ids UUID[])
+RETURNS TABLE (seed_id UUID, movie_id UUID, score NUMERIC, reason TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH seeds AS (
+    SELECT id, coalesce(genre, '{}') AS genre FROM movies WHERE id = ANY(seed_ids)
+  ),
+  genre_matches AS (
+    SELECT s.id AS seed_id, m.id AS movie_id,
+      ARRAY(SELECT g FROM unnest(s.genre) g WHERE g = ANY(m.genre) ORDER BY g) AS shared,
+      (SELECT count(DISTINCT g) FROM unnest(s.genre || m.genre) g) AS combined
+    FROM seeds s
+    JOIN movies m ON m.id <> s.id AND m.genre && s.genre
+  ),
+  -- Only the top-billed cast of the seed counts; extras shared across films mean little
+  cast_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(p.name ORDER BY own.order_position NULLS LAST, p.name))[1] AS top_name
+    FROM seeds s
+    JOIN cast_members own ON own.movie_id = s.id AND coalesce(own.order_position, 0) < 10
+    JOIN cast_members other ON other.tmdb_person_id = own.tmdb_person_id AND other.movie_id <> s.id
+    JOIN people p ON p.tmdb_person_id = own.tmdb_person_id
+    GROUP BY s.id, other.movie_id
+  ),
+  crew_matches AS (
+    SELECT s.id AS seed_id, other.movie_id,
+      count(DISTINCT other.tmdb_person_id) AS shared,
+      (array_agg(lower(own.job) || ': ' || p.name ORDER BY own.job, p.name))[1] AS top_credit
+    FROM seeds s
+    JOIN crew_members own ON own.movie_id = s.id AND own.job IN ('Director', 'Screenplay', 'Writer')
+    JOIN crew_members other ON other.tmdb_person_id = own.tmdb_person_id
+      AND other.job = own.job
+      AND other.movie_id <> s.id
+    JOIN people p ON p.tmdb_person_id = own.tmdb_person_id
+    GROUP BY s.id, other.movie_id
+  ),
+  fans AS (
+    SELECT user_ratings.movie_id, count(*) AS likes
+    FROM user_ratings
+    WHERE rating >= 4
+    GROUP BY user_ratings.movie_id
+  ),
+  fan_matches AS (
+    SELECT s.id AS seed_id, other.movie_id, count(*) AS shared
+    FROM seeds s
+    JOIN user_ratings own ON own.movie_id = s.id AND own.rating >= 4
+    JOIN user_ratings other ON other.user_id = own.user_id AND other.movie_id <> s.id AND other.rating >= 4
+    GROUP BY s.id, other.movie_id
+  ),
+  candidates AS (
+    SELECT genre_matches.seed_id, genre_matches.movie_id FROM genre_matches
+    UNION SELECT cast_matches.seed_id, cast_matches.movie_id FROM cast_matches
+    UNION SELECT crew_matches.seed_id, crew_matches.movie_id FROM crew_matches
+    UNION SELECT fan_matches.seed_id, fan_matches.movie_id FROM fan_matches
+  ),
+  scored AS (
+    SELECT c.seed_id, c.movie_id,
+      coalesce(cardinality(g.shared)::NUMERIC / nullif(g.combined, 0), 0) AS genre_score,
+      least(coalesce(ca.shared, 0), 3) / 3.0 AS cast_score,
+      least(coalesce(cr.shared, 0), 2) / 2.0 AS crew_score,
+      -- Cosine similarity over the sets of fans
+      coalesce(f.shared / sqrt((seed_fans.likes * movie_fans.likes)::NUMERIC), 0) AS fan_score,
+      g.shared AS genres,
+      ca.top_name,
+      cr.top_credit,
+      coalesce(f.shared, 0) AS shared_fans
+    FROM candidates c
+    LEFT JOIN genre_matches g ON g.seed_id = c.seed_id AND g.movie_id = c.movie_id
+    LEFT JOIN cast_matches ca ON ca.seed_id = c.seed_id AND ca.movie_id = c.movie_id
+    LEFT JOIN crew_matches cr ON cr.seed_id = c.seed_id AND cr.movie_id = c.movie_id
+    LEFT JOIN fan_matches f ON f.seed_id = c.seed_id AND f.movie_id = c.movie_id
+    LEFT JOIN fans seed_fans ON seed_fans.movie_id = c.seed_id
+    LEFT JOIN fans movie_fans ON movie_fans.movie_id = c.movie_id
+  )
+  SELECT scored.seed_id, scored.movie_id,
+    round(0.35 * genre_score + 0.25 * cast_score + 0.15 * crew_score + 0.25 * fan_score, 4) AS score,
+    CASE
+      WHEN top_credit IS NOT NULL THEN 'Same ' || top_credit
+      WHEN top_name IS NOT NULL THEN 'Also stars ' || top_name
+      WHEN shared_fans >= 2 OR cardinality(genres) IS NULL OR cardinality(genres) = 0 THEN 'Liked by the same viewers'
+      ELSE 'Also ' || array_to_string(genres, ', ')
+    END AS reason
+  FROM scored
+  JOIN movies m ON m.id = scored.movie_id
+  WHERE viewer_can_browse(m.maturity_level)
+$$;
@@ -0,0 +1,576 @@
+-- Household profiles. An account now owns several profiles; the one created at
+-- signup is its primary profile and can't be removed.
+ALTER TABLE public.profiles DROP CONSTRAINT profiles_user_id_key;
+
+ALTER TABLE public.profiles
+  ADD COLUMN is_primary BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN is_kids BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.profiles SET is_primary = true;
+
+CREATE INDEX idx_profiles_user_id ON public.profiles(user_id);
+CREATE UNIQUE INDEX idx_profiles_one_primary ON public.profiles(user_id) WHERE is_primary;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, email, display_name, is_primary)
+  VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data ->> 'display_name', split_part(NEW.email, '@', 1)), true);
+  RETURN NEW;
+END;
+$$;
+
+-- Profiles per account: Premium 4, Basic 2, no subscription 1
+CREATE OR REPLACE FUNCTION public.account_profile_limit(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(max(CASE s.subscription_tier WHEN 'Premium' THEN 4 WHEN 'Basic' THEN 2 END), 1)
+  FROM subscribers s
+  WHERE s.subscribed
+    AND (s.user_id = _user_id OR s.email = (SELECT email FROM auth.users WHERE id = _user_id))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_profile_limit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Checked on insert only: after a downgrade, existing profiles stay but no new ones can be added
+CREATE OR REPLACE FUNCTION public.enforce_profile_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_limit INTEGER := account_profile_limit(NEW.user_id);
+BEGIN
+  IF NOT NEW.is_primary AND (SELECT count(*) FROM profiles WHERE user_id = NEW.user_id) >= profile_limit THEN
+    RAISE EXCEPTION 'Your plan allows up to % profiles', profile_limit;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_profile_limit_before_insert
+  BEFORE INSERT ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_profile_limit();
+
+-- Members may rename a profile or flip its kids flag, but not move it to
+-- another account or change which profile is the primary one. Only an
+-- unrestricted profile can take a profile out of kids mode.
+CREATE OR REPLACE FUNCTION public.protect_profile_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.is_primary := OLD.is_primary;
+  IF OLD.is_kids AND NOT NEW.is_kids AND viewer_max_maturity() IS NOT NULL THEN
+    RAISE EXCEPTION 'Switch to an unrestricted profile to turn off kids mode';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_ownership_before_update
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_ownership();
+
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+
+CREATE POLICY "Users can add profiles to their account" ON public.profiles
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND NOT is_primary);
+
+CREATE POLICY "Users can delete their extra profiles" ON public.profiles
+  FOR DELETE USING (user_id = auth.uid() AND NOT is_primary);
+
+-- The profile picked on each signed-in device. Keyed by the auth session, so
+-- two people on one account can watch as different profiles at once, and the
+-- choice goes away when that device signs out. Read through the functions below.
+CREATE TABLE public.profile_sessions (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  selected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profile_sessions ENABLE ROW LEVEL SECURITY;
+
+-- NULL until the profile picker has been used on this device
+CREATE OR REPLACE FUNCTION public.selected_profile_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.profile_id
+  FROM profile_sessions ps
+  WHERE ps.session_id = (auth.jwt() ->> 'session_id')::UUID
+    AND ps.user_id = auth.uid()
+$$;
+
+-- Falls back to the primary profile so nothing breaks before a profile is picked
+CREATE OR REPLACE FUNCTION public.current_profile_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    selected_profile_id(),
+    (SELECT id FROM profiles WHERE user_id = auth.uid() AND is_primary)
+  )
+$$;
+
+-- The account PIN guards leaving a kids or PIN-restricted profile for one that
+-- can see more. A profile's own parental PIN can't do that job: a kids profile
+-- without controls could choose one itself. Same lockout as the parental PIN.
+CREATE TABLE public.account_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- No policies: read and written only through the functions below
+ALTER TABLE public.account_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_account_pins_updated_at
+  BEFORE UPDATE ON public.account_pins
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.check_account_pin(_user_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account_pin account_pins%ROWTYPE;
+BEGIN
+  SELECT * INTO account_pin FROM account_pins WHERE user_id = _user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF account_pin.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many incorrect PINs. Try again in % minutes',
+      ceil(extract(epoch FROM account_pin.locked_until - now()) / 60);
+  END IF;
+
+  IF _pin IS NOT NULL AND extensions.crypt(_pin, account_pin.pin_hash) = account_pin.pin_hash THEN
+    UPDATE account_pins SET failed_attempts = 0, locked_until = NULL WHERE user_id = _user_id;
+    RETURN true;
+  END IF;
+
+  UPDATE account_pins
+  SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+    locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + interval '15 minutes' END
+  WHERE user_id = _user_id;
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_account_pin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM account_pins WHERE user_id = auth.uid())
+$$;
+
+-- Sets or changes the account PIN. Only an unrestricted profile may, so a
+-- restricted one can't pick the PIN that lets it out.
+CREATE OR REPLACE FUNCTION public.set_account_pin(_new_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF _new_pin IS NULL OR _new_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 digits';
+  END IF;
+  IF profile_max_maturity(current_profile_id()) IS NOT NULL THEN
+    RAISE EXCEPTION 'Switch to an unrestricted profile to set the account PIN';
+  END IF;
+
+  INSERT INTO account_pins (user_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(_new_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_account_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Switching from a kids or PIN-restricted profile to one with a higher limit
+-- needs the account PIN; returns false when it's missing or wrong. The first
+-- pick after signing in doesn't, as the account password was just entered.
+CREATE OR REPLACE FUNCTION public.select_profile(_profile_id UUID, _pin TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_session UUID := (auth.jwt() ->> 'session_id')::UUID;
+  leaving UUID := selected_profile_id();
+BEGIN
+  IF current_session IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = _profile_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  -- No limit counts as NC-17, the top level
+  IF leaving IS NOT NULL
+     AND COALESCE(profile_max_maturity(_profile_id), 4) > COALESCE(profile_max_maturity(leaving), 4) THEN
+    IF NOT EXISTS (SELECT 1 FROM account_pins WHERE user_id = auth.uid()) THEN
+      RAISE EXCEPTION 'This profile is restricted. Set an account PIN from an unrestricted profile, or sign out and back in, to switch';
+    END IF;
+    -- A missing PIN isn't counted as a wrong one: it's how the picker asks whether one is needed
+    IF _pin IS NULL OR NOT check_account_pin(auth.uid(), _pin) THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO profile_sessions (session_id, user_id, profile_id)
+  VALUES (current_session, auth.uid(), _profile_id)
+  ON CONFLICT (session_id) DO UPDATE
+    SET profile_id = EXCLUDED.profile_id, selected_at = now();
+  RETURN true;
+END;
+$$;
+
+-- Kids profiles never go above PG, whatever their parental controls say
+CREATE OR REPLACE FUNCTION public.profile_max_maturity(_profile_id UUID)
+RETURNS SMALLINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT LEAST(
+    (SELECT max_maturity_level FROM parental_controls WHERE profile_id = _profile_id),
+    (SELECT 1::SMALLINT FROM profiles WHERE id = _profile_id AND is_kids)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.profile_max_maturity(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.viewer_max_maturity()
+RETURNS SMALLINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT profile_max_maturity(current_profile_id())
+$$;
+
+CREATE OR REPLACE FUNCTION public.profile_can_watch(_profile_id UUID, _movie_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1
+      FROM movies m
+      CROSS JOIN (SELECT profile_max_maturity(_profile_id) AS max_level) limits
+      WHERE m.id = _movie_id
+        AND COALESCE(m.maturity_level, 4) > limits.max_level
+    )
+    OR EXISTS (
+      SELECT 1 FROM parental_unlocks u
+      WHERE u.profile_id = _profile_id AND u.movie_id = _movie_id AND u.expires_at > now()
+    )
+$$;
+
+-- A kids profile without parental controls has no PIN to check, so nothing can be unlocked on it
+CREATE OR REPLACE FUNCTION public.unlock_restricted_movie(_movie_id UUID, _pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile UUID := current_profile_id();
+BEGIN
+  IF profile IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM parental_controls WHERE profile_id = profile) THEN
+    RAISE EXCEPTION 'Set a parental PIN on this profile to unlock titles';
+  END IF;
+  IF NOT check_parental_pin(profile, _pin) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM parental_unlocks WHERE profile_id = profile AND expires_at <= now();
+  INSERT INTO parental_unlocks (profile_id, movie_id, expires_at)
+  VALUES (profile, _movie_id, now() + interval '4 hours')
+  ON CONFLICT (profile_id, movie_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+  RETURN true;
+END;
+$$;
+
+-- Watchlists, ratings, history and recent searches belong to a profile.
+-- Existing rows go to the account's primary profile. profile_id defaults to
+-- the active profile and RLS only shows that profile's rows, so inserts and
+-- reads from the app are scoped without passing the profile around.
+ALTER TABLE public.watchlist ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.user_ratings ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.viewing_history ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+ALTER TABLE public.recent_searches ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+UPDATE public.watchlist t SET profile_id = p.id FROM public.profiles p WHERE p.user_id = t.user_id AND p.is_primary;
+UPDATE public.user_ratings t SET profile_id = p.id FROM public.profiles p WHERE p.user_id = t.user_id AND p.is_primary;
+UPDATE public.viewing_history t SET profile_id = p.id FROM public.profiles p WHERE p.user_id = t.user_id AND p.is_primary;
+UPDATE public.recent_searches t SET profile_id = p.id FROM public.profiles p WHERE p.user_id = t.user_id AND p.is_primary;
+
+ALTER TABLE public.watchlist
+  ALTER COLUMN profile_id SET NOT NULL,
+  ALTER COLUMN profile_id SET DEFAULT public.current_profile_id(),
+  DROP CONSTRAINT watchlist_user_id_movie_id_key,
+  ADD CONSTRAINT watchlist_profile_id_movie_id_key UNIQUE (profile_id, movie_id);
+
+ALTER TABLE public.user_ratings
+  ALTER COLUMN profile_id SET NOT NULL,
+  ALTER COLUMN profile_id SET DEFAULT public.current_profile_id(),
+  DROP CONSTRAINT user_ratings_user_id_movie_id_key,
+  ADD CONSTRAINT user_ratings_profile_id_movie_id_key UNIQUE (profile_id, movie_id);
+
+ALTER TABLE public.viewing_history
+  ALTER COLUMN profile_id SET NOT NULL,
+  ALTER COLUMN profile_id SET DEFAULT public.current_profile_id();
+
+ALTER TABLE public.recent_searches
+  ALTER COLUMN profile_id SET NOT NULL,
+  ALTER COLUMN profile_id SET DEFAULT public.current_profile_id(),
+  DROP CONSTRAINT recent_searches_user_id_term_key,
+  ADD CONSTRAINT recent_searches_profile_id_term_key UNIQUE (profile_id, term);
+
+CREATE INDEX idx_viewing_history_profile_watched_at ON public.viewing_history(profile_id, watched_at DESC);
+DROP INDEX public.idx_recent_searches_user_searched_at;
+CREATE INDEX idx_recent_searches_profile_searched_at ON public.recent_searches(profile_id, searched_at DESC);
+
+DROP POLICY "Users can manage their own watchlist" ON public.watchlist;
+DROP POLICY "Users can manage their own ratings" ON public.user_ratings;
+DROP POLICY "Users can manage their own viewing history" ON public.viewing_history;
+DROP POLICY "Users can manage their own recent searches" ON public.recent_searches;
+
+CREATE POLICY "Profiles can manage their own watchlist" ON public.watchlist
+  FOR ALL USING (user_id = auth.uid() AND profile_id = public.current_profile_id())
+  WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE POLICY "Profiles can manage their own ratings" ON public.user_ratings
+  FOR ALL USING (user_id = auth.uid() AND profile_id = public.current_profile_id())
+  WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE POLICY "Profiles can manage their own viewing history" ON public.viewing_history
+  FOR ALL USING (user_id = auth.uid() AND profile_id = public.current_profile_id())
+  WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE POLICY "Profiles can manage their own recent searches" ON public.recent_searches
+  FOR ALL USING (user_id = auth.uid() AND profile_id = public.current_profile_id())
+  WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE OR REPLACE FUNCTION public.trim_recent_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.recent_searches
+  WHERE profile_id = NEW.profile_id
+    AND id NOT IN (
+      SELECT id FROM public.recent_searches
+      WHERE profile_id = NEW.profile_id
+      ORDER BY searched_at DESC
+      LIMIT 20
+    );
+  RETURN NULL;
+END;
+$$;
+
+-- Recommendations follow the active profile rather than the whole account
+CREATE OR REPLACE FUNCTION public.profile_seen_movie_ids(_profile_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT movie_id FROM user_ratings WHERE profile_id = _profile_id
+  UNION SELECT movie_id FROM viewing_history WHERE profile_id = _profile_id
+  UNION SELECT movie_id FROM watchlist WHERE profile_id = _profile_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.profile_seen_movie_ids(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.similar_movies(
+  target_movie_id UUID,
+  result_limit INTEGER DEFAULT 12,
+  exclude_seen BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.title, m.description, m.genre, m.release_year, m.duration_minutes, m.rating,
+    m.poster_url, m.subscription_tier, s.score, s.reason
+  FROM movie_similarity(ARRAY[target_movie_id]) s
+  JOIN movies m ON m.id = s.movie_id
+  WHERE NOT exclude_seen OR m.id NOT IN (SELECT profile_seen_movie_ids(current_profile_id()))
+  ORDER BY s.score DESC, m.id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.because_you_watched(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT,
+  source_movie_id UUID,
+  source_title TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH latest AS (
+    SELECT vh.movie_id
+    FROM viewing_history vh
+    WHERE vh.profile_id = current_profile_id()
+    ORDER BY vh.watched_at DESC
+    LIMIT 1
+  )
+  SELECT s.id, s.title, s.description, s.genre, s.release_year, s.duration_minutes, s.rating,
+    s.poster_url, s.subscription_tier, s.score, s.reason, src.id, src.title
+  FROM latest l
+  JOIN movies src ON src.id = l.movie_id
+  CROSS JOIN LATERAL similar_movies(l.movie_id, result_limit, true) s
+  ORDER BY s.score DESC, s.id
+$$;
+
+CREATE OR REPLACE FUNCTION public.recommended_movies(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT,
+  source_movie_id UUID,
+  source_title TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH signals AS (
+    SELECT ur.movie_id, (ur.rating - 3)::NUMERIC AS weight, 'liked' AS action, ur.updated_at AS happened_at
+    FROM user_ratings ur
+    WHERE ur.profile_id = current_profile_id() AND ur.rating >= 4
+
+    UNION ALL
+
+    SELECT vh.movie_id, CASE WHEN bool_or(vh.completed) THEN 1.5 ELSE 0.5 END, 'watched', max(vh.watched_at)
+    FROM viewing_history vh
+    WHERE vh.profile_id = current_profile_id()
+    GROUP BY vh.movie_id
+
+    UNION ALL
+
+    SELECT w.movie_id, 1.0, 'saved', w.created_at
+    FROM watchlist w
+    WHERE w.profile_id = current_profile_id()
+  ),
+  seeds AS (
+    SELECT sig.movie_id, sum(sig.weight) AS weight,
+      (array_agg(sig.action ORDER BY sig.weight DESC, sig.action))[1] AS action
+    FROM signals sig
+    GROUP BY sig.movie_id
+    ORDER BY sum(sig.weight) DESC, max(sig.happened_at) DESC, sig.movie_id
+    LIMIT 20
+  ),
+  contributions AS (
+    SELECT sim.movie_id, sim.seed_id, sim.reason, sim.score * seeds.weight AS contribution
+    FROM movie_similarity(ARRAY(SELECT seeds.movie_id FROM seeds)) sim
+    JOIN seeds ON seeds.movie_id = sim.seed_id
+    WHERE sim.movie_id NOT IN (SELECT profile_seen_movie_ids(current_profile_id()))
+  ),
+  ranked AS (
+    SELECT c.movie_id, sum(c.contribution) AS score,
+      (array_agg(c.seed_id ORDER BY c.contribution DESC, c.seed_id))[1] AS source_movie_id,
+      (array_agg(c.reason ORDER BY c.contribution DESC, c.seed_id))[1] AS detail
+    FROM contributions c
+    GROUP BY c.movie_id
+  )
+  SELECT m.id, m.title, m.description, m.genre, m.release_year, m.duration_minutes, m.rating,
+    m.poster_url, m.subscription_tier, round(r.score, 4),
+    'Because you ' || seeds.action || ' ' || src.title || ' · ' || r.detail,
+    src.id, src.title
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  JOIN movies src ON src.id = r.source_movie_id
+  JOIN seeds ON seeds.movie_id = r.source_movie_id
+  ORDER BY r.score DESC, m.id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
+
+DROP FUNCTION public.user_seen_movie_ids(UUID);
+
+-- Show the profile allowance on the pricing page
+UPDATE public.plans SET features = array_append(features, 'Up to 2 profiles') WHERE tier = 'Basic';
+UPDATE public.plans SET features = array_append(features, 'Up to 4 profiles') WHERE tier = 'Premium';
@@ -0,0 +1,221 @@
+-- Devices and concurrent streams. A device is one signed-in auth session, so
+-- signing a device out is deleting its session. Both tables are read and
+-- written only through the functions below.
+CREATE TABLE public.devices (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- e.g. "Chrome on macOS", worked out by the app from the user agent
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_devices_user_id ON public.devices(user_id);
+
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+-- One row per device that is playing something. The player renews
+-- last_heartbeat_at every minute; rows older than three minutes no longer count.
+CREATE TABLE public.active_streams (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  movie_id UUID NOT NULL REFERENCES public.movies(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_active_streams_user_heartbeat ON public.active_streams(user_id, last_heartbeat_at);
+
+ALTER TABLE public.active_streams ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.current_session_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (auth.jwt() ->> 'session_id')::UUID
+$$;
+
+-- Streams at once: Premium 4, Basic 1, matching the pricing page
+CREATE OR REPLACE FUNCTION public.account_stream_limit(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(max(CASE s.subscription_tier WHEN 'Premium' THEN 4 WHEN 'Basic' THEN 1 END), 0)
+  FROM subscribers s
+  WHERE s.subscribed
+    AND (s.user_id = _user_id OR s.email = (SELECT email FROM auth.users WHERE id = _user_id))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_stream_limit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Signed-in devices: Premium 10, Basic 5, no subscription 2
+CREATE OR REPLACE FUNCTION public.account_device_limit(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(max(CASE s.subscription_tier WHEN 'Premium' THEN 10 WHEN 'Basic' THEN 5 END), 2)
+  FROM subscribers s
+  WHERE s.subscribed
+    AND (s.user_id = _user_id OR s.email = (SELECT email FROM auth.users WHERE id = _user_id))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_device_limit(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Called by the app whenever a session starts or its token refreshes. A new
+-- device beyond the plan's limit signs out the devices unused the longest, so
+-- signing in always works; returns their names so the app can say so.
+CREATE OR REPLACE FUNCTION public.register_device(_name TEXT, _user_agent TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_session UUID := current_session_id();
+  excess INTEGER;
+  signed_out TEXT;
+BEGIN
+  IF current_session IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  -- Two devices signing in at once must not both take the last place
+  PERFORM pg_advisory_xact_lock(hashtext('devices:' || auth.uid()::TEXT));
+
+  IF NOT EXISTS (SELECT 1 FROM devices WHERE session_id = current_session) THEN
+    excess := (SELECT count(*) FROM devices WHERE user_id = auth.uid()) - account_device_limit(auth.uid()) + 1;
+
+    IF excess > 0 THEN
+      -- Deleting the session drops its device row and stream, as sign_out_device does
+      WITH removed AS (
+        DELETE FROM auth.sessions
+        WHERE id IN (
+          SELECT session_id FROM devices
+          WHERE user_id = auth.uid()
+          ORDER BY last_seen_at
+          LIMIT excess
+        )
+        RETURNING id
+      )
+      SELECT string_agg(d.name, ', ' ORDER BY d.last_seen_at)
+      INTO signed_out
+      FROM devices d
+      JOIN removed r ON r.id = d.session_id;
+    END IF;
+  END IF;
+
+  INSERT INTO devices (session_id, user_id, name, user_agent)
+  VALUES (current_session, auth.uid(), left(_name, 100), left(_user_agent, 500))
+  ON CONFLICT (session_id) DO UPDATE
+    SET name = EXCLUDED.name, user_agent = EXCLUDED.user_agent, last_seen_at = now();
+  RETURN signed_out;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_devices()
+RETURNS TABLE (
+  session_id UUID,
+  name TEXT,
+  created_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ,
+  is_current BOOLEAN,
+  streaming_title TEXT,
+  streaming_profile TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.session_id, d.name, d.created_at, d.last_seen_at,
+    d.session_id IS NOT DISTINCT FROM current_session_id(),
+    m.title, p.display_name
+  FROM devices d
+  LEFT JOIN active_streams s
+    ON s.session_id = d.session_id AND s.last_heartbeat_at > now() - interval '3 minutes'
+  LEFT JOIN movies m ON m.id = s.movie_id
+  LEFT JOIN profiles p ON p.id = s.profile_id
+  WHERE d.user_id = auth.uid()
+  ORDER BY d.session_id IS NOT DISTINCT FROM current_session_id() DESC, d.last_seen_at DESC
+$$;
+
+-- Claims a stream slot for this device. Returns false when the plan's limit is
+-- already taken by other devices; the app then offers to stop one of them.
+-- Called by get-playback-url as the viewer, just before it hands out a URL.
+CREATE OR REPLACE FUNCTION public.start_stream(_movie_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_session UUID := current_session_id();
+BEGIN
+  IF current_session IS NULL OR NOT EXISTS (SELECT 1 FROM auth.sessions WHERE id = current_session) THEN
+    RAISE EXCEPTION 'This device has been signed out';
+  END IF;
+
+  -- Two devices starting at once must not both squeeze into the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('active_streams:' || auth.uid()::TEXT));
+
+  DELETE FROM active_streams
+  WHERE user_id = auth.uid() AND last_heartbeat_at <= now() - interval '3 minutes';
+
+  IF (SELECT count(*) FROM active_streams WHERE user_id = auth.uid() AND session_id <> current_session)
+      >= account_stream_limit(auth.uid()) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO active_streams (session_id, user_id, profile_id, movie_id)
+  VALUES (current_session, auth.uid(), current_profile_id(), _movie_id)
+  ON CONFLICT (session_id) DO UPDATE
+    SET profile_id = EXCLUDED.profile_id, movie_id = EXCLUDED.movie_id,
+      started_at = now(), last_heartbeat_at = now();
+  RETURN true;
+END;
+$$;
+
+-- Returns false once another device has taken this one's slot, so the player can stop
+CREATE OR REPLACE FUNCTION public.stream_heartbeat()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE devices SET last_seen_at = now() WHERE session_id = current_session_id();
+  UPDATE active_streams SET last_heartbeat_at = now()
+  WHERE session_id = current_session_id() AND user_id = auth.uid();
+  RETURN FOUND;
+END;
+$$;
+
+-- Ends this device's stream, or with a session ID, another device's on the same account
+CREATE OR REPLACE FUNCTION public.end_stream(_session_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM active_streams
+  WHERE user_id = auth.uid() AND session_id = COALESCE(_session_id, current_session_id())
+$$;
+
+-- Revokes the session, which signs the device out at its next token refresh
+-- and drops its profile choice, device row and stream with it
+CREATE OR REPLACE FUNCTION public.sign_out_device(_session_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions WHERE id = _session_id AND user_id = auth.uid()
+$$;
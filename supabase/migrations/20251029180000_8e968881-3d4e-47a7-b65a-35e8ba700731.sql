@@ -0,0 +1,5 @@
+-- Removing a title from Continue Watching hides its unfinished sessions rather
+-- than deleting them: watch counts, trending and recommendations still use them.
+-- Watching the title again clears the flag.
+ALTER TABLE public.viewing_history
+  ADD COLUMN dismissed BOOLEAN NOT NULL DEFAULT false;
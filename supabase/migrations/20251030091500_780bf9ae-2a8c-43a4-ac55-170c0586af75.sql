@@ -0,0 +1,17 @@
+-- Realtime sync: the app listens for changes to these tables so a title added in
+-- one tab or on a phone shows up everywhere without a reload. Realtime applies
+-- each table's RLS, so a viewer only hears about their own profile's rows and
+-- their own subscription.
+
+-- Lets Realtime check delete events against the profile_id filter. With RLS on,
+-- the event itself still only carries the row ID, which the app matches against
+-- what it has loaded.
+ALTER TABLE public.watchlist REPLICA IDENTITY FULL;
+ALTER TABLE public.user_ratings REPLICA IDENTITY FULL;
+ALTER TABLE public.viewing_history REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.watchlist,
+  public.user_ratings,
+  public.viewing_history,
+  public.subscribers;
@@ -0,0 +1,257 @@
+-- Named watchlists. Every profile has a default list that can't be deleted, and
+-- can add its own ("Date night", "Kids"). A title can be saved to several lists;
+-- within a list it has a position the viewer can drag to reorder, and an optional note.
+CREATE TABLE public.watchlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL DEFAULT public.current_profile_id() REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_watchlists_one_default ON public.watchlists(profile_id) WHERE is_default;
+CREATE UNIQUE INDEX idx_watchlists_profile_name ON public.watchlists(profile_id, lower(btrim(name)));
+
+ALTER TABLE public.watchlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Profiles can view their own lists" ON public.watchlists
+  FOR SELECT USING (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE POLICY "Profiles can add lists" ON public.watchlists
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id() AND NOT is_default);
+
+CREATE POLICY "Profiles can rename their own lists" ON public.watchlists
+  FOR UPDATE USING (user_id = auth.uid() AND profile_id = public.current_profile_id())
+  WITH CHECK (user_id = auth.uid() AND profile_id = public.current_profile_id());
+
+CREATE POLICY "Profiles can delete their extra lists" ON public.watchlists
+  FOR DELETE USING (user_id = auth.uid() AND profile_id = public.current_profile_id() AND NOT is_default);
+
+-- A list may be renamed, but not moved to another profile or made (or unmade) the default
+CREATE OR REPLACE FUNCTION public.protect_watchlist_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.profile_id := OLD.profile_id;
+  NEW.is_default := OLD.is_default;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_watchlist_ownership_before_update
+  BEFORE UPDATE ON public.watchlists
+  FOR EACH ROW EXECUTE FUNCTION public.protect_watchlist_ownership();
+
+CREATE OR REPLACE FUNCTION public.create_default_watchlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO watchlists (user_id, profile_id, name, is_default)
+  VALUES (NEW.user_id, NEW.id, 'My Watchlist', true);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_default_watchlist() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER create_default_watchlist_after_insert
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.create_default_watchlist();
+
+INSERT INTO public.watchlists (user_id, profile_id, name, is_default)
+SELECT p.user_id, p.id, 'My Watchlist', true
+FROM public.profiles p;
+
+-- Existing saves go to the profile's default list, newest first as before
+ALTER TABLE public.watchlist
+  ADD COLUMN list_id UUID REFERENCES public.watchlists(id) ON DELETE CASCADE,
+  ADD COLUMN position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN note TEXT CHECK (char_length(note) <= 500);
+
+UPDATE public.watchlist w SET list_id = l.id
+FROM public.watchlists l
+WHERE l.profile_id = w.profile_id AND l.is_default;
+
+UPDATE public.watchlist w SET position = ranked.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY list_id ORDER BY created_at DESC, id)::INTEGER AS position
+  FROM public.watchlist
+) ranked
+WHERE ranked.id = w.id;
+
+ALTER TABLE public.watchlist
+  ALTER COLUMN list_id SET NOT NULL,
+  DROP CONSTRAINT watchlist_profile_id_movie_id_key,
+  ADD CONSTRAINT watchlist_list_id_movie_id_key UNIQUE (list_id, movie_id);
+
+CREATE INDEX idx_watchlist_profile_id ON public.watchlist(profile_id);
+
+-- Saves without a list (older clients) go to the default one, and new saves
+-- go to the top of their list. A save can only point at a list of its own profile.
+CREATE OR REPLACE FUNCTION public.prepare_watchlist_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.list_id IS NULL THEN
+    SELECT id INTO NEW.list_id FROM watchlists WHERE profile_id = NEW.profile_id AND is_default;
+  ELSIF NOT EXISTS (SELECT 1 FROM watchlists WHERE id = NEW.list_id AND profile_id = NEW.profile_id) THEN
+    RAISE EXCEPTION 'List not found';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT coalesce(min(position), 1) - 1 INTO NEW.position FROM watchlist WHERE list_id = NEW.list_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prepare_watchlist_item() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER prepare_watchlist_item_before_write
+  BEFORE INSERT OR UPDATE OF list_id, profile_id ON public.watchlist
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_watchlist_item();
+
+-- Saves the order the viewer dragged a list into. Runs as the caller, so RLS
+-- limits it to the active profile's rows; titles not named keep their position.
+CREATE OR REPLACE FUNCTION public.reorder_watchlist(_list_id UUID, _movie_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE watchlist w
+  SET position = o.position
+  FROM unnest(_movie_ids) WITH ORDINALITY AS o(movie_id, position)
+  WHERE w.list_id = _list_id AND w.movie_id = o.movie_id
+$$;
+
+-- A title saved to several lists is one save as far as recommendations and
+-- trending are concerned
+CREATE OR REPLACE FUNCTION public.recommended_movies(result_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  genre TEXT[],
+  release_year INTEGER,
+  duration_minutes INTEGER,
+  rating NUMERIC,
+  poster_url TEXT,
+  subscription_tier TEXT,
+  score NUMERIC,
+  reason TEXT,
+  source_movie_id UUID,
+  source_title TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH signals AS (
+    SELECT ur.movie_id, (ur.rating - 3)::NUMERIC AS weight, 'liked' AS action, ur.updated_at AS happened_at
+    FROM user_ratings ur
+    WHERE ur.profile_id = current_profile_id() AND ur.rating >= 4
+
+    UNION ALL
+
+    SELECT vh.movie_id, CASE WHEN bool_or(vh.completed) THEN 1.5 ELSE 0.5 END, 'watched', max(vh.watched_at)
+    FROM viewing_history vh
+    WHERE vh.profile_id = current_profile_id()
+    GROUP BY vh.movie_id
+
+    UNION ALL
+
+    SELECT w.movie_id, 1.0, 'saved', max(w.created_at)
+    FROM watchlist w
+    WHERE w.profile_id = current_profile_id()
+    GROUP BY w.movie_id
+  ),
+  seeds AS (
+    SELECT sig.movie_id, sum(sig.weight) AS weight,
+      (array_agg(sig.action ORDER BY sig.weight DESC, sig.action))[1] AS action
+    FROM signals sig
+    GROUP BY sig.movie_id
+    ORDER BY sum(sig.weight) DESC, max(sig.happened_at) DESC, sig.movie_id
+    LIMIT 20
+  ),
+  contributions AS (
+    SELECT sim.movie_id, sim.seed_id, sim.reason, sim.score * seeds.weight AS contribution
+    FROM movie_similarity(ARRAY(SELECT seeds.movie_id FROM seeds)) sim
+    JOIN seeds ON seeds.movie_id = sim.seed_id
+    WHERE sim.movie_id NOT IN (SELECT profile_seen_movie_ids(current_profile_id()))
+  ),
+  ranked AS (
+    SELECT c.movie_id, sum(c.contribution) AS score,
+      (array_agg(c.seed_id ORDER BY c.contribution DESC, c.seed_id))[1] AS source_movie_id,
+      (array_agg(c.reason ORDER BY c.contribution DESC, c.seed_id))[1] AS detail
+    FROM contributions c
+    GROUP BY c.movie_id
+  )
+  SELECT m.id, m.title, m.description, m.genre, m.release_year, m.duration_minutes, m.rating,
+    m.poster_url, m.subscription_tier, round(r.score, 4),
+    'Because you ' || seeds.action || ' ' || src.title || ' · ' || r.detail,
+    src.id, src.title
+  FROM ranked r
+  JOIN movies m ON m.id = r.movie_id
+  JOIN movies src ON src.id = r.source_movie_id
+  JOIN seeds ON seeds.movie_id = r.source_movie_id
+  ORDER BY r.score DESC, m.id
+  LIMIT least(greatest(result_limit, 1), 50)
+$$;
+
+DROP MATERIALIZED VIEW public.movie_trending_scores;
+
+CREATE MATERIALIZED VIEW public.movie_trending_scores AS
+WITH activity AS (
+  -- One event per viewer per title, however many times the player saved progress
+  SELECT movie_id, max(watched_at) AS happened_at,
+    CASE WHEN bool_or(completed) THEN 2.0 ELSE 1.0 END AS weight
+  FROM public.viewing_history
+  WHERE watched_at > now() - interval '7 days'
+  GROUP BY user_id, movie_id
+
+  UNION ALL
+
+  -- The first save counts, however many of the profile's lists the title is in
+  SELECT movie_id, min(created_at), 2.0
+  FROM public.watchlist
+  WHERE created_at > now() - interval '7 days'
+  GROUP BY profile_id, movie_id
+
+  UNION ALL
+
+  -- A 5-star rating counts for five times a 1-star one
+  SELECT movie_id, updated_at, rating * 0.4
+  FROM public.user_ratings
+  WHERE updated_at > now() - interval '7 days'
+)
+SELECT
+  movie_id,
+  round(coalesce(sum(weight) FILTER (WHERE happened_at > now() - interval '24 hours'), 0), 2) AS score_24h,
+  round(sum(weight), 2) AS score_7d,
+  round(sum(weight * power(0.5, extract(epoch FROM now() - happened_at) / 86400)), 4) AS trending_score,
+  now() AS refreshed_at
+FROM activity
+GROUP BY movie_id;
+
+CREATE UNIQUE INDEX idx_movie_trending_scores_movie_id ON public.movie_trending_scores(movie_id);
+CREATE INDEX idx_movie_trending_scores_score ON public.movie_trending_scores(trending_score DESC);
+
+GRANT SELECT ON public.movie_trending_scores TO anon, authenticated;
+
+-- Lists sync across tabs and devices like the rest of the watchlist
+ALTER TABLE public.watchlists REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.watchlists;